@@ -0,0 +1,167 @@
+import { CycleEdge, CycleGraph, CycleReport } from '../types/cycles.types';
+import { ModuleMetadata } from '../types/modules.types';
+
+type AdjacencyList = Map<string, CycleEdge[]>;
+
+export class CycleAnalyzer {
+  constructor(private readonly modules: Map<string, ModuleMetadata>) {}
+
+  public analyze(): CycleReport[] {
+    return [...this.findCycles('module', this.buildModuleGraph()), ...this.findCycles('provider', this.buildProviderGraph())];
+  }
+
+  private buildModuleGraph(): AdjacencyList {
+    const graph: AdjacencyList = new Map();
+
+    this.modules.forEach((module, moduleId) => {
+      graph.set(
+        moduleId,
+        module.imports.map((imp) => ({
+          from: moduleId,
+          to: imp.moduleId ?? imp.name,
+          isForwardReference: !!imp.isForwardReference,
+        })),
+      );
+    });
+
+    return graph;
+  }
+
+  private buildProviderGraph(): AdjacencyList {
+    const graph: AdjacencyList = new Map();
+
+    this.modules.forEach((module) => {
+      module.providers.forEach((provider) => {
+        const edges = graph.get(provider.name) ?? [];
+        provider.dependencies.forEach((dep) => {
+          edges.push({
+            from: provider.name,
+            to: dep,
+            isForwardReference: !!provider.injections?.some((injection) => injection.token === dep && injection.isForwardReference),
+          });
+        });
+        graph.set(provider.name, edges);
+      });
+    });
+
+    return graph;
+  }
+
+  private findCycles(kind: CycleGraph, graph: AdjacencyList): CycleReport[] {
+    return this.findStronglyConnectedComponents(graph)
+      .filter((component) => component.length > 1 || this.hasSelfLoop(graph, component[0]))
+      .map((component) => {
+        const members = [...component].sort();
+        const memberSet = new Set(members);
+        // The component is only safe if every import inside it is deferred, not just the shortest loop
+        const unguardedEdges = members.flatMap((node) =>
+          (graph.get(node) ?? []).filter((edge) => memberSet.has(edge.to) && !edge.isForwardReference),
+        );
+        // Report a loop through a missing forwardRef so that the printed path shows where to add one
+        const [first] = unguardedEdges;
+        const path = !first
+          ? this.findShortestPath(graph, members[0], members[0], memberSet)
+          : first.to === first.from
+            ? [first]
+            : [first, ...this.findShortestPath(graph, first.to, first.from, memberSet)];
+
+        return {
+          graph: kind,
+          members,
+          path,
+          isGuarded: !unguardedEdges.length,
+          unguardedEdges,
+        };
+      });
+  }
+
+  private hasSelfLoop(graph: AdjacencyList, node: string): boolean {
+    return (graph.get(node) ?? []).some((edge) => edge.to === node);
+  }
+
+  /**
+   * Tarjan's algorithm. Edges pointing at nodes outside the graph (external modules,
+   * unresolved tokens) are ignored since they can never close a cycle.
+   */
+  private findStronglyConnectedComponents(graph: AdjacencyList): string[][] {
+    const indices = new Map<string, number>();
+    const lowLinks = new Map<string, number>();
+    const onStack = new Set<string>();
+    const stack: string[] = [];
+    const components: string[][] = [];
+    let index = 0;
+
+    const visit = (node: string) => {
+      indices.set(node, index);
+      lowLinks.set(node, index);
+      index++;
+      stack.push(node);
+      onStack.add(node);
+
+      for (const edge of graph.get(node) ?? []) {
+        if (!graph.has(edge.to)) continue;
+
+        if (!indices.has(edge.to)) {
+          visit(edge.to);
+          lowLinks.set(node, Math.min(lowLinks.get(node)!, lowLinks.get(edge.to)!));
+        } else if (onStack.has(edge.to)) {
+          lowLinks.set(node, Math.min(lowLinks.get(node)!, indices.get(edge.to)!));
+        }
+      }
+
+      if (lowLinks.get(node) === indices.get(node)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== node);
+        components.push(component);
+      }
+    };
+
+    graph.forEach((_, node) => {
+      if (!indices.has(node)) visit(node);
+    });
+
+    return components;
+  }
+
+  /**
+   * Breadth-first search for the fewest edges leading from `start` to `end` within the component.
+   * With `start === end` this is the shortest cycle through `start`.
+   */
+  private findShortestPath(graph: AdjacencyList, start: string, end: string, members: Set<string>): CycleEdge[] {
+    const previous = new Map<string, CycleEdge>();
+    const queue = [start];
+    const visited = new Set<string>([start]);
+
+    while (queue.length) {
+      const node = queue.shift()!;
+
+      for (const edge of graph.get(node) ?? []) {
+        if (!members.has(edge.to)) continue;
+
+        if (edge.to === end) {
+          const path = [edge];
+          let current = node;
+          while (current !== start) {
+            const step = previous.get(current)!;
+            path.unshift(step);
+            current = step.from;
+          }
+          return path;
+        }
+
+        if (!visited.has(edge.to)) {
+          visited.add(edge.to);
+          previous.set(edge.to, edge);
+          queue.push(edge.to);
+        }
+      }
+    }
+
+    return [];
+  }
+}
@@ -1,76 +1,445 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import * as ts from 'typescript';
+import { AnalysisCache } from '../cache/analysis.cache';
 import { AstParser } from '../parsers/ast.parser';
-import { ModuleMetadata, ProviderMetadata } from '../types/modules.types';
+import { BootstrapParser } from '../parsers/bootstrap.parser';
+import { ProgramLoader } from '../parsers/program.loader';
+import { BootstrapMetadata } from '../types/bootstrap.types';
+import { ProjectOptions } from '../types/config.types';
+import { Diagnostic } from '../types/diagnostics.types';
+import { ImportMetadata, ModuleMetadata, ProviderDependent, ProviderMetadata, VisibleProvider } from '../types/modules.types';
+import { matchGlob } from '../utils/glob.util';
+
+const IGNORED_DIRECTORIES = new Set(['node_modules', 'dist', 'coverage']);
+export const DEFAULT_MODULE_PATTERN = '\\.module\\.ts$';
+
+interface ProjectFile {
+  filePath: string;
+  content: string;
+  hash: string;
+}
 
 export class DependencyAnalyzer {
   private modules: Map<string, ModuleMetadata> = new Map();
+  private exportCache: Map<string, Omit<VisibleProvider, 'source'>[]> = new Map();
+  private dependents: Map<string, ProviderDependent[]> = new Map();
+  private moduleFiles: string[] = [];
+  private bootstrapFiles: string[] = [];
+  private testFiles: string[] = [];
+  private bootstraps: BootstrapMetadata[] = [];
+  private rootModules: ModuleMetadata[] = [];
+  private diagnostics: Diagnostic[] = [];
+  private program?: ts.Program;
+  private readonly modulePattern: RegExp;
 
-  constructor(private readonly basePath: string) {}
+  constructor(
+    private readonly basePath: string,
+    private readonly cache?: AnalysisCache,
+    private readonly options: ProjectOptions = {},
+  ) {
+    this.modulePattern = new RegExp(options.modulePattern ?? DEFAULT_MODULE_PATTERN);
+  }
 
-  public async analyze(): Promise<Map<string, ModuleMetadata>> {
+  /**
+   * Analyzes the project. With a cache, files whose content (and the files their metadata was derived
+   * from) did not change since the previous run are restored instead of parsed, and the TypeScript
+   * program is only built for the files that need parsing.
+   *
+   * Modules are then marked as reachable or not from `root`, or from the root modules passed to
+   * `NestFactory` in the bootstrap files when no root is given.
+   */
+  public async analyze(root?: string): Promise<Map<string, ModuleMetadata>> {
+    this.reset();
     await this.scanDirectory(this.basePath);
+    await this.cache?.load(this.options);
+    this.cache?.resetFileHashes();
+
+    const moduleSources = await this.readSources(this.moduleFiles);
+    const bootstrapSources = await this.readSources(this.bootstrapFiles);
+    const cachedModules = await this.restoreFromCache<ModuleMetadata>('modules', moduleSources);
+    const cachedBootstraps = await this.restoreFromCache<BootstrapMetadata>('bootstraps', bootstrapSources);
+
+    const staleFiles = [
+      ...moduleSources.filter((source) => !cachedModules.has(source.filePath)),
+      ...bootstrapSources.filter((source) => !cachedBootstraps.has(source.filePath)),
+    ].map((source) => source.filePath);
+    if (staleFiles.length) {
+      this.program = new ProgramLoader(this.basePath, this.options.tsconfig).load(staleFiles, !this.cache);
+    }
+
+    // Parsing stays sequential: every file is resolved through the same TypeScript program and type
+    // checker, which cannot be shared with worker threads. Only reading and hashing the files is concurrent.
+    for (const source of moduleSources) {
+      const metadata = cachedModules.has(source.filePath) ? cachedModules.get(source.filePath) : await this.parseModule(source);
+      if (metadata?.name) this.addModule(source.filePath, metadata);
+    }
+
+    for (const source of bootstrapSources) {
+      const bootstrap = cachedBootstraps.has(source.filePath) ? cachedBootstraps.get(source.filePath) : await this.parseBootstrap(source);
+      if (bootstrap) this.bootstraps.push(bootstrap);
+    }
+
     await this.resolveModuleDependencies();
+    this.resolveVisibleProviders();
+    this.resolveReachability(root);
+
+    if (this.cache) {
+      this.cache.retain('modules', this.moduleFiles);
+      this.cache.retain('bootstraps', this.bootstrapFiles);
+      await this.cache.save();
+    }
     return this.modules;
   }
 
+  /**
+   * Returns the bootstrap file at `filePath`, or the first one found when no path is given.
+   */
+  public getBootstrap(filePath?: string): BootstrapMetadata | undefined {
+    if (!filePath) return this.bootstraps[0];
+    return this.bootstraps.find((bootstrap) => path.resolve(bootstrap.filePath) === path.resolve(filePath));
+  }
+
+  /**
+   * Every bootstrap file found by the last analysis, e.g. one `main.ts` per application of a monorepo.
+   */
+  public getBootstraps(): BootstrapMetadata[] {
+    return this.bootstraps;
+  }
+
+  /**
+   * The module passed to `NestFactory` in `bootstrap`, if it is part of the analyzed project.
+   */
+  public findRootModule(bootstrap: BootstrapMetadata): ModuleMetadata | undefined {
+    return bootstrap.rootModule ? this.findModule(bootstrap.rootModule, bootstrap.rootModulePath) : undefined;
+  }
+
+  /**
+   * Files the last analysis could not read or parse, and metadata it skipped. Such files are left out
+   * of the analysis instead of failing it.
+   */
+  public getDiagnostics(): Diagnostic[] {
+    return this.diagnostics;
+  }
+
+  /**
+   * Providers and controllers injecting `token`, including through `useExisting` aliases and factory
+   * `inject` lists, across all analyzed modules.
+   */
+  public getDependents(token: string): ProviderDependent[] {
+    return this.dependents.get(token) ?? [];
+  }
+
+  /**
+   * Spec files (`*.spec.ts`, `*.test.ts`, `*.e2e-spec.ts`) found by the last analysis. They are not
+   * parsed by `analyze()`; see TestingAnalyzer.
+   */
+  public getTestFiles(): string[] {
+    return this.testFiles;
+  }
+
+  /**
+   * The include/exclude globs, module file pattern and tsconfig the analyzer was created with.
+   */
+  public getOptions(): ProjectOptions {
+    return this.options;
+  }
+
+  /**
+   * Modules the reachability of the last analysis was computed from.
+   */
+  public getRootModules(): ModuleMetadata[] {
+    return this.rootModules;
+  }
+
+  /**
+   * Keeps the modules reachable from the root modules, up to `maxDepth` imports away, and drops imports
+   * of modules that were left out. Without a known root every module is kept.
+   */
+  public static filterReachable(
+    modules: Map<string, ModuleMetadata>,
+    maxDepth = Infinity,
+    includeUnreachable = false,
+  ): Map<string, ModuleMetadata> {
+    const kept = Array.from(modules.values()).filter(
+      (module) => module.isReachable === undefined || (module.isReachable ? module.depth! <= maxDepth : includeUnreachable),
+    );
+    return DependencyAnalyzer.keepModules(modules, new Set(kept.map((module) => module.id)));
+  }
+
+  /**
+   * Resolves `token` the way Nest does for `module`, through its visible providers: its own providers,
+   * the exports of its imports and those of global modules. Returns the module the token comes from
+   * and, when that module registers it, the provider; undefined when `module` cannot inject the token.
+   */
+  public static resolveProvider(
+    modules: Map<string, ModuleMetadata>,
+    module: ModuleMetadata,
+    token: string,
+  ): { module: ModuleMetadata; provider?: ProviderMetadata } | undefined {
+    const visible = module.visibleProviders?.find((candidate) => candidate.token === token);
+    const owner = visible && (visible.source === 'local' ? module : modules.get(visible.providedById));
+    if (!owner) return undefined;
+
+    return { module: owner, provider: owner.providers.find((provider) => (provider.provide ?? provider.name) === token) };
+  }
+
+  /**
+   * Keeps the modules `rootId` imports, directly or indirectly, and drops imports of modules that were
+   * left out.
+   */
+  public static filterImportedFrom(modules: Map<string, ModuleMetadata>, rootId: string): Map<string, ModuleMetadata> {
+    return DependencyAnalyzer.keepModules(modules, new Set(DependencyAnalyzer.measureDepths(modules, [rootId]).keys()));
+  }
+
+  /**
+   * Keeps the modules at most `radius` imports away from `focusId`, following imports in both
+   * directions, and drops imports of modules that were left out.
+   */
+  public static filterFocus(modules: Map<string, ModuleMetadata>, focusId: string, radius = 1): Map<string, ModuleMetadata> {
+    const distances = new Map([[focusId, 0]]);
+    const queue = [focusId];
+
+    while (queue.length) {
+      const current = queue.shift()!;
+      const distance = distances.get(current)!;
+      if (distance >= radius) continue;
+
+      const neighbours = [
+        ...(modules.get(current)?.imports ?? []).map((imp) => imp.moduleId),
+        ...Array.from(modules.values())
+          .filter((module) => module.imports.some((imp) => imp.moduleId === current))
+          .map((module) => module.id),
+      ];
+      neighbours.forEach((moduleId) => {
+        if (!moduleId || !modules.has(moduleId) || distances.has(moduleId)) return;
+        distances.set(moduleId, distance + 1);
+        queue.push(moduleId);
+      });
+    }
+
+    return DependencyAnalyzer.keepModules(modules, new Set(distances.keys()));
+  }
+
+  /**
+   * Drops imports of modules outside the project whose package (e.g. `@nestjs/*`) or class name matches
+   * one of `patterns`, including imports nested in the options of dynamic modules.
+   */
+  public static filterExternals(modules: Map<string, ModuleMetadata>, patterns: string[]): Map<string, ModuleMetadata> {
+    if (!patterns.length) return modules;
+
+    const isIgnored = (imp: ImportMetadata) =>
+      !imp.moduleId && (matchGlob(patterns, imp.name) || (!!imp.package && matchGlob(patterns, imp.package)));
+    const filter = (imports: ImportMetadata[]): ImportMetadata[] =>
+      imports
+        .filter((imp) => !isIgnored(imp))
+        .map((imp) => (imp.dynamic ? { ...imp, dynamic: { ...imp.dynamic, imports: filter(imp.dynamic.imports) } } : imp));
+
+    return new Map(Array.from(modules, ([id, module]) => [id, { ...module, imports: filter(module.imports) }]));
+  }
+
+  private static keepModules(modules: Map<string, ModuleMetadata>, keptIds: Set<string>): Map<string, ModuleMetadata> {
+    return new Map(
+      Array.from(modules.values())
+        .filter((module) => keptIds.has(module.id))
+        .map((module) => [module.id, { ...module, imports: module.imports.filter((imp) => !imp.moduleId || keptIds.has(imp.moduleId)) }]),
+    );
+  }
+
+  /** Shortest import distance from any of `rootIds`, also through modules passed to dynamic modules. */
+  private static measureDepths(modules: Map<string, ModuleMetadata>, rootIds: string[]): Map<string, number> {
+    const depths = new Map(rootIds.map((id) => [id, 0]));
+    const queue = [...rootIds];
+    while (queue.length) {
+      const current = queue.shift()!;
+      const imports = (modules.get(current)?.imports ?? []).flatMap((imp) => [imp, ...(imp.dynamic?.imports ?? [])]);
+      imports.forEach((imp) => {
+        if (!imp.moduleId || depths.has(imp.moduleId)) return;
+        depths.set(imp.moduleId, depths.get(current)! + 1);
+        queue.push(imp.moduleId);
+      });
+    }
+    return depths;
+  }
+
+  /**
+   * Module ids combine the file path (relative to the analyzed project) with the class name, since
+   * class names alone collide as soon as several apps each declare an `AppModule`.
+   */
+  public getModuleId(filePath: string, name: string): string {
+    return `${this.getRelativePath(filePath)}#${name}`;
+  }
+
+  public findModule(name: string, filePath?: string): ModuleMetadata | undefined {
+    const candidates = Array.from(this.modules.values()).filter((module) => module.name === name);
+    if (filePath) {
+      const exact = candidates.find((module) => module.filePath && path.resolve(module.filePath) === path.resolve(filePath));
+      if (exact) return exact;
+    }
+
+    return candidates.length === 1 ? candidates[0] : undefined;
+  }
+
   private async scanDirectory(dirPath: string): Promise<void> {
+    const files = (await this.collectFiles(dirPath)).filter((filePath) => this.isIncluded(filePath));
+    this.moduleFiles = files.filter((filePath) => this.isNestModule(path.basename(filePath)));
+    this.bootstrapFiles = files.filter((filePath) => path.basename(filePath) === 'main.ts');
+    this.testFiles = files.filter((filePath) => this.isTestFile(path.basename(filePath)));
+  }
+
+  /**
+   * Lists candidate files below `dirPath`. Subdirectories are read concurrently but results are
+   * concatenated in directory order, so module order (and therefore output) stays stable.
+   */
+  private async collectFiles(dirPath: string): Promise<string[]> {
     try {
       const entries = await fs.readdir(dirPath, { withFileTypes: true });
 
-      for (const entry of entries) {
-        const fullPath = path.join(dirPath, entry.name);
+      const nested = await Promise.all(
+        entries.map(async (entry) => {
+          const fullPath = path.join(dirPath, entry.name);
 
-        if (entry.isDirectory()) {
-          await this.scanDirectory(fullPath);
-        } else if (this.isNestModule(entry.name)) {
-          await this.parseModule(fullPath);
-        }
-      }
+          if (entry.isDirectory()) {
+            if (IGNORED_DIRECTORIES.has(entry.name) || entry.name.startsWith('.') || this.isExcluded(`${fullPath}/`)) return [];
+            return this.collectFiles(fullPath);
+          }
+          return this.isNestModule(entry.name) || entry.name === 'main.ts' || this.isTestFile(entry.name) ? [path.resolve(fullPath)] : [];
+        }),
+      );
+      return nested.flat();
     } catch (error) {
-      console.error(`Error scanning directory ${dirPath}:`, error);
-      throw error;
+      if (dirPath === this.basePath) throw error;
+
+      this.addDiagnostic('unreadable-file', dirPath, `Cannot read directory: ${(error as Error).message}`);
+      return [];
     }
   }
 
   private isNestModule(fileName: string): boolean {
-    return /\.module\.ts$/.test(fileName);
+    return this.modulePattern.test(fileName);
+  }
+
+  /**
+   * Applies the configured globs to the path relative to the project; `exclude` wins over `include`.
+   */
+  private isIncluded(filePath: string): boolean {
+    const relativePath = this.getRelativePath(filePath);
+    return (!this.options.include?.length || matchGlob(this.options.include, relativePath)) && !this.isExcluded(filePath);
+  }
+
+  private isExcluded(filePath: string): boolean {
+    if (!this.options.exclude?.length) return false;
+
+    // Directories are passed with a trailing slash so that `test/**` skips the whole `test` directory
+    const relativePath = this.getRelativePath(filePath) + (filePath.endsWith('/') ? '/' : '');
+    return matchGlob(this.options.exclude, relativePath);
+  }
+
+  private getRelativePath(filePath: string): string {
+    return path.relative(this.basePath, filePath).split(path.sep).join('/');
   }
 
-  private async parseModule(filePath: string): Promise<void> {
+  private isTestFile(fileName: string): boolean {
+    return /[.-](spec|test)\.ts$/.test(fileName);
+  }
+
+  private reset(): void {
+    this.modules = new Map();
+    this.exportCache = new Map();
+    this.dependents = new Map();
+    this.moduleFiles = [];
+    this.bootstrapFiles = [];
+    this.testFiles = [];
+    this.bootstraps = [];
+    this.rootModules = [];
+    this.diagnostics = [];
+    this.program = undefined;
+  }
+
+  /**
+   * Reads all files concurrently; parsing itself is synchronous and happens afterwards.
+   */
+  private async readSources(filePaths: string[]): Promise<ProjectFile[]> {
+    const sources = await Promise.all(
+      filePaths.map(async (filePath) => {
+        try {
+          const content = await fs.readFile(filePath, 'utf-8');
+          const hash = AnalysisCache.hash(content);
+          this.cache?.setFileHash(filePath, hash);
+          return { filePath, content, hash };
+        } catch (error) {
+          this.addDiagnostic('unreadable-file', filePath, `Cannot read file: ${(error as Error).message}`);
+          return null;
+        }
+      }),
+    );
+    return sources.filter((source): source is ProjectFile => !!source);
+  }
+
+  private async restoreFromCache<T>(section: 'modules' | 'bootstraps', sources: ProjectFile[]): Promise<Map<string, T | null>> {
+    const restored = new Map<string, T | null>();
+    if (!this.cache) return restored;
+
+    for (const source of sources) {
+      const result = await this.cache.get<T>(section, source.filePath, source.hash);
+      if (result === undefined) continue;
+
+      restored.set(source.filePath, result);
+      this.diagnostics.push(...this.cache.getDiagnostics(section, source.filePath));
+    }
+    return restored;
+  }
+
+  private addModule(filePath: string, metadata: ModuleMetadata): void {
+    const id = this.getModuleId(filePath, metadata.name);
+    this.modules.set(id, {
+      ...metadata,
+      id,
+      filePath,
+    });
+  }
+
+  /**
+   * A file that fails to parse is reported and skipped; it is not cached so the next run retries it.
+   */
+  private async parseModule(source: ProjectFile): Promise<ModuleMetadata | null> {
+    let moduleMetadata: ModuleMetadata | null;
+    const parser = new AstParser(source.content, source.filePath, this.program, this.options.ignoreModuleClasses);
     try {
-      const content = await fs.readFile(filePath, 'utf-8');
-      const parser = new AstParser(content, filePath);
-      const moduleMetadata = parser.parseModule();
-
-      if (moduleMetadata?.name) {
-        this.modules.set(moduleMetadata.name, {
-          ...moduleMetadata,
-          filePath,
-        });
-      }
+      moduleMetadata = parser.parseModule();
+    } catch (error) {
+      this.addDiagnostic('parse-error', source.filePath, `Cannot parse module: ${(error as Error).message}`);
+      return null;
+    }
+
+    this.diagnostics.push(...parser.getDiagnostics());
+    await this.cache?.set('modules', source.filePath, source.hash, moduleMetadata, parser.getReferencedFiles(), parser.getDiagnostics());
+    return moduleMetadata;
+  }
+
+  private async parseBootstrap(source: ProjectFile): Promise<BootstrapMetadata | undefined> {
+    let bootstrap: BootstrapMetadata | null;
+    try {
+      bootstrap = new BootstrapParser(source.content, source.filePath, this.program).parse();
     } catch (error) {
-      console.error(`Error parsing module ${filePath}:`, error);
-      throw error;
+      this.addDiagnostic('parse-error', source.filePath, `Cannot parse bootstrap file: ${(error as Error).message}`);
+      return undefined;
     }
+
+    // The root module path is resolved through the checker, so it depends on the root module file
+    await this.cache?.set(
+      'bootstraps',
+      source.filePath,
+      source.hash,
+      bootstrap,
+      bootstrap?.rootModulePath ? [bootstrap.rootModulePath] : [],
+    );
+    return bootstrap ?? undefined;
   }
 
   private async resolveModuleDependencies(): Promise<void> {
     this.modules.forEach((module) => {
-      module.imports = module.imports.map((imp) => {
-        const importedModule = Array.from(this.modules.values()).find((m) => m.name === imp.name);
-        return {
-          ...imp,
-          path: importedModule?.filePath,
-          module: importedModule
-            ? {
-                name: importedModule.name,
-                providers: importedModule.providers,
-                controllers: importedModule.controllers,
-              }
-            : undefined,
-        };
-      });
+      module.imports = module.imports.map((imp) => this.resolveImport(imp));
 
       // Resolve provider dependencies
       module.providers.forEach((provider) => {
@@ -79,9 +448,161 @@ export class DependencyAnalyzer {
           return resolvedProvider?.name ?? dep;
         });
       });
+
+      // Follow useExisting aliases to the provider that actually backs each injected token
+      [...module.providers, ...module.controllers].forEach((consumer) => {
+        consumer.injections?.forEach((injection) => {
+          const target = this.resolveAlias(injection.token);
+          if (target !== injection.token) {
+            injection.resolvedTo = target;
+          }
+        });
+      });
+
+      this.addDependents(module);
     });
   }
 
+  /**
+   * Indexes the reverse of the dependency edges, so impact analysis can walk from a provider to
+   * everything injecting it.
+   */
+  private addDependents(module: ModuleMetadata): void {
+    const consumers = [
+      ...module.providers.map((provider) => ({ kind: 'provider' as const, name: provider.provide ?? provider.name, consumer: provider })),
+      ...module.controllers.map((controller) => ({ kind: 'controller' as const, name: controller.name, consumer: controller })),
+    ];
+
+    consumers.forEach(({ kind, name, consumer }) => {
+      new Set(consumer.dependencies).forEach((token) => {
+        const dependents = this.dependents.get(token) ?? [];
+        dependents.push({ kind, name, module: module.name, moduleId: module.id });
+        this.dependents.set(token, dependents);
+      });
+    });
+  }
+
+  private resolveImport(imp: ImportMetadata): ImportMetadata {
+    const importedModule = this.findModule(imp.name, imp.path);
+    const dynamic = imp.dynamic && { ...imp.dynamic, imports: imp.dynamic.imports.map((nested) => this.resolveImport(nested)) };
+
+    return {
+      ...imp,
+      path: importedModule?.filePath,
+      moduleId: importedModule?.id,
+      module: importedModule
+        ? {
+            name: importedModule.name,
+            providers: importedModule.providers,
+            controllers: importedModule.controllers,
+          }
+        : undefined,
+      dynamic,
+    };
+  }
+
+  private resolveAlias(token: string, visited = new Set<string>()): string {
+    const provider = this.findProviderByName(token);
+    if (provider?.type !== 'existing' || !provider.useExisting || visited.has(token)) {
+      return token;
+    }
+
+    visited.add(token);
+    return this.resolveAlias(provider.useExisting, visited);
+  }
+
+  /**
+   * Computes which tokens each module can inject and where they come from: its own providers, the
+   * exports of its imports (following module re-exports transitively) and the exports of @Global() modules.
+   */
+  private resolveVisibleProviders(): void {
+    const globalModules = Array.from(this.modules.values()).filter((module) => module.isGlobal);
+
+    this.modules.forEach((module) => {
+      const visible = new Map<string, VisibleProvider>();
+      const add = (provider: VisibleProvider) => {
+        if (!visible.has(provider.token)) visible.set(provider.token, provider);
+      };
+
+      module.providers.forEach((provider) => {
+        add({ token: provider.provide ?? provider.name, source: 'local', providedBy: module.name, providedById: module.id, via: [] });
+      });
+
+      module.imports.forEach((imp) => {
+        const importedModule = imp.moduleId ? this.modules.get(imp.moduleId) : undefined;
+        if (!importedModule) return;
+        this.getExportedProviders(importedModule).forEach((exported) => add({ ...exported, source: 'import' }));
+      });
+
+      globalModules
+        .filter((globalModule) => globalModule !== module)
+        .forEach((globalModule) => {
+          this.getExportedProviders(globalModule).forEach((exported) => add({ ...exported, source: 'global' }));
+        });
+
+      module.exportedProviders = [...new Set(this.getExportedProviders(module).map((exported) => exported.token))];
+      module.visibleProviders = Array.from(visible.values());
+    });
+  }
+
+  private getExportedProviders(module: ModuleMetadata, visiting = new Set<string>()): Omit<VisibleProvider, 'source'>[] {
+    const cached = this.exportCache.get(module.id);
+    if (cached) return cached;
+    if (visiting.has(module.id)) return [];
+    visiting.add(module.id);
+
+    const exported: Omit<VisibleProvider, 'source'>[] = module.exports.map((token) => ({
+      token,
+      providedBy: module.name,
+      providedById: module.id,
+      via: [module.name],
+    }));
+
+    module.reExports.forEach((reExport) => {
+      const imported = module.imports.find((imp) => imp.name === reExport);
+      const reExportedModule = imported?.moduleId ? this.modules.get(imported.moduleId) : this.findModule(reExport);
+      if (!reExportedModule) return;
+
+      this.getExportedProviders(reExportedModule, visiting).forEach((provider) => {
+        exported.push({ ...provider, via: [module.name, ...provider.via] });
+      });
+    });
+
+    this.exportCache.set(module.id, exported);
+    return exported;
+  }
+
+  /**
+   * Walks imports breadth-first from the root modules, including modules passed to dynamic modules
+   * (e.g. `forRootAsync({ imports })`), so `depth` is the shortest import distance from any root.
+   */
+  private resolveReachability(root?: string): void {
+    if (root) {
+      const rootModule = this.findModule(root);
+      if (!rootModule) {
+        throw new Error(`Root module "${root}" not found`);
+      }
+      this.rootModules = [rootModule];
+    } else {
+      const rootModules = this.bootstraps.map((bootstrap) => this.findRootModule(bootstrap));
+      this.rootModules = [...new Set(rootModules.filter((module): module is ModuleMetadata => !!module))];
+    }
+    if (!this.rootModules.length) return;
+
+    const depths = DependencyAnalyzer.measureDepths(
+      this.modules,
+      this.rootModules.map((module) => module.id),
+    );
+    this.modules.forEach((module) => {
+      module.isReachable = depths.has(module.id);
+      module.depth = depths.get(module.id);
+    });
+  }
+
+  private addDiagnostic(code: Diagnostic['code'], filePath: string, message: string): void {
+    this.diagnostics.push({ severity: 'error', code, message, filePath });
+  }
+
   private findProviderByName(name: string): ProviderMetadata | undefined {
     for (const module of this.modules.values()) {
       const provider = module.providers.find((p) => p.name === name || p.provide === name);
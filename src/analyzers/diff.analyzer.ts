@@ -0,0 +1,93 @@
+import { CycleReport } from '../types/cycles.types';
+import { ChangeKind, DiffEntry, GraphDiff } from '../types/diff.types';
+import { ModuleMetadata } from '../types/modules.types';
+import { CycleAnalyzer } from './cycle.analyzer';
+
+type Item = Omit<DiffEntry, 'change'>;
+
+export class DiffAnalyzer {
+  constructor(
+    private readonly base: Map<string, ModuleMetadata>,
+    private readonly head: Map<string, ModuleMetadata>,
+  ) {}
+
+  /**
+   * Compares the two graphs by module id, so a module that moved to another file shows up as removed
+   * and added. Cycles are compared by their member set.
+   */
+  public analyze(): GraphDiff {
+    const baseCycles = new CycleAnalyzer(this.base).analyze();
+    const headCycles = new CycleAnalyzer(this.head).analyze();
+
+    return {
+      modules: this.compare((modules) => Array.from(modules.values()).map((module) => ({ module: module.id, name: module.name }))),
+      imports: this.compare((modules) =>
+        this.flatMapModules(modules, (module) =>
+          module.imports.map((imp) => ({
+            module: module.id,
+            name: `${module.name} -> ${imp.name}`,
+            target: imp.moduleId ?? imp.name,
+          })),
+        ),
+      ),
+      providers: this.compare((modules) =>
+        this.flatMapModules(modules, (module) =>
+          module.providers.map((provider) => ({ module: module.id, name: `${module.name}: ${provider.provide ?? provider.name}` })),
+        ),
+      ),
+      exports: this.compare((modules) =>
+        this.flatMapModules(modules, (module) =>
+          [...module.exports, ...module.reExports].map((token) => ({ module: module.id, name: `${module.name}: ${token}` })),
+        ),
+      ),
+      injections: this.compare((modules) =>
+        this.flatMapModules(modules, (module) =>
+          [...module.providers, ...module.controllers].flatMap((consumer) =>
+            consumer.dependencies.map((token) => ({ module: module.id, name: `${module.name}: ${consumer.name} -> ${token}` })),
+          ),
+        ),
+      ),
+      newCycles: this.subtractCycles(headCycles, baseCycles, true),
+      resolvedCycles: this.subtractCycles(baseCycles, headCycles),
+    };
+  }
+
+  private compare(collect: (modules: Map<string, ModuleMetadata>) => Item[]): DiffEntry[] {
+    const key = (item: Item) => `${item.module}\u0000${item.name}\u0000${item.target ?? ''}`;
+    const baseItems = collect(this.base);
+    const headItems = collect(this.head);
+    const baseKeys = new Set(baseItems.map(key));
+    const headKeys = new Set(headItems.map(key));
+
+    const changes = (items: Item[], others: Set<string>, change: ChangeKind) =>
+      this.unique(
+        items.filter((item) => !others.has(key(item))),
+        key,
+      ).map((item) => ({ change, ...item }));
+
+    return [...changes(headItems, baseKeys, 'added'), ...changes(baseItems, headKeys, 'removed')];
+  }
+
+  /**
+   * Returns the cycles that have no counterpart in `others`. With `countUnguarding`, a cycle that
+   * exists on both sides but lost its forwardRef guard also counts, since it now fails at bootstrap.
+   */
+  private subtractCycles(cycles: CycleReport[], others: CycleReport[], countUnguarding = false): CycleReport[] {
+    const key = (cycle: CycleReport) => `${cycle.graph}:${[...cycle.members].sort().join(',')}`;
+    const otherCycles = new Map(others.map((cycle) => [key(cycle), cycle]));
+
+    return cycles.filter((cycle) => {
+      const other = otherCycles.get(key(cycle));
+      return !other || (countUnguarding && !cycle.isGuarded && other.isGuarded);
+    });
+  }
+
+  private flatMapModules(modules: Map<string, ModuleMetadata>, collect: (module: ModuleMetadata) => Item[]): Item[] {
+    return Array.from(modules.values()).flatMap(collect);
+  }
+
+  private unique(items: Item[], key: (item: Item) => string): Item[] {
+    const seen = new Set<string>();
+    return items.filter((item) => !seen.has(key(item)) && !!seen.add(key(item)));
+  }
+}
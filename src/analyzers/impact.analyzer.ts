@@ -0,0 +1,149 @@
+import { ImpactNode, ImpactReport, VisibilityLoss } from '../types/impact.types';
+import { ModuleMetadata } from '../types/modules.types';
+import { ResolvedRoute } from '../types/routes.types';
+import { TestSetupReport } from '../types/testing.types';
+import { DependencyAnalyzer } from './dependency.analyzer';
+import { RouteAnalyzer } from './route.analyzer';
+
+export class ImpactAnalyzer {
+  private routes: ResolvedRoute[] = [];
+
+  constructor(
+    private readonly analyzer: DependencyAnalyzer,
+    private readonly modules: Map<string, ModuleMetadata>,
+  ) {}
+
+  /**
+   * Walks the injection graph backwards from a provider token, or from the providers a module
+   * exports, and lists the modules that lose visibility of them if the export is removed. Provider
+   * tokens take precedence over module names.
+   */
+  public analyze(target: string): ImpactReport {
+    this.routes = RouteAnalyzer.analyzeApplications(this.analyzer, this.modules);
+
+    const owners = Array.from(this.modules.values()).filter((module) =>
+      module.providers.some((provider) => (provider.provide ?? provider.name) === target),
+    );
+    const targetModule = owners.length
+      ? undefined
+      : (this.modules.get(target) ?? this.modules.get(this.analyzer.findModule(target)?.id ?? ''));
+    if (!owners.length && !targetModule) {
+      throw new Error(`"${target}" is neither a provider token nor a module`);
+    }
+
+    const tokens = targetModule ? [...new Set(targetModule.exportedProviders ?? targetModule.exports)] : [target];
+    const exporters = targetModule ? [targetModule] : owners;
+    const importers = targetModule ? this.collectImporters(targetModule) : [];
+
+    // Providers of the target module itself are part of the change; list what injects them instead
+    const listed = new Set(exporters.flatMap((module) => tokens.map((token) => `${module.id}\u0000provider\u0000${token}`)));
+    const hoist = (nodes: ImpactNode[]): ImpactNode[] =>
+      nodes.flatMap((node) => (node.moduleId === targetModule?.id ? hoist(node.dependents) : [node]));
+    const dependents = hoist(tokens.flatMap((token) => this.collectDependents(token, listed))).filter((node) => !node.isRepeated);
+    const affected = this.flatten(dependents);
+
+    return {
+      target,
+      kind: targetModule ? 'module' : 'provider',
+      definedIn: exporters.map((module) => module.id),
+      tokens,
+      dependents,
+      importers,
+      modules: [...new Set([...affected.map((node) => node.moduleId), ...importers])],
+      routes: [...new Set(affected.flatMap((node) => node.routes ?? []))],
+      visibilityLoss: this.findVisibilityLoss(tokens, exporters),
+    };
+  }
+
+  /**
+   * Spec files whose testing module creates or mocks the target or creates an affected provider or
+   * controller, see TestingAnalyzer.
+   */
+  public selectTestFiles(report: ImpactReport, setups: TestSetupReport[]): string[] {
+    const members = new Set([...report.tokens, ...this.flatten(report.dependents).map((node) => node.name)]);
+    const modules = new Set([...report.definedIn, ...report.modules]);
+
+    const files = setups
+      .filter(
+        (setup) =>
+          setup.real.some((token) => members.has(token)) ||
+          setup.mocked.some((mocked) => report.tokens.includes(mocked.token)) ||
+          setup.modules.some((moduleId) => modules.has(moduleId)),
+      )
+      .map((setup) => setup.filePath);
+    return [...new Set(files)].sort();
+  }
+
+  private collectDependents(token: string, listed: Set<string>): ImpactNode[] {
+    return this.analyzer
+      .getDependents(token)
+      .filter((dependent) => this.modules.has(dependent.moduleId))
+      .map((dependent) => {
+        const key = `${dependent.moduleId}\u0000${dependent.kind}\u0000${dependent.name}`;
+        const node: ImpactNode = { ...dependent, dependents: [] };
+        if (dependent.kind === 'controller') node.routes = this.getRoutes(dependent.module, dependent.name);
+
+        if (listed.has(key)) {
+          node.isRepeated = true;
+        } else {
+          listed.add(key);
+          if (dependent.kind === 'provider') node.dependents = this.collectDependents(dependent.name, listed);
+        }
+        return node;
+      });
+  }
+
+  /**
+   * Modules that see a token through an import or a global module and would no longer see it if the
+   * module providing it stopped exporting it, whether or not they inject it today.
+   */
+  private findVisibilityLoss(tokens: string[], exporters: ModuleMetadata[]): VisibilityLoss[] {
+    const exporterNames = new Set(exporters.map((module) => module.name));
+
+    return Array.from(this.modules.values()).flatMap((module) =>
+      (module.visibleProviders ?? [])
+        .filter((visible) => visible.source !== 'local' && tokens.includes(visible.token) && exporterNames.has(visible.providedBy))
+        .map((visible) => ({
+          module: module.name,
+          moduleId: module.id,
+          token: visible.token,
+          exportedBy: visible.providedBy,
+          injectedBy: [
+            ...module.providers
+              .filter((provider) => provider.dependencies.includes(visible.token))
+              .map((provider) => provider.provide ?? provider.name),
+            ...module.controllers
+              .filter((controller) => controller.dependencies.includes(visible.token))
+              .map((controller) => controller.name),
+          ],
+        })),
+    );
+  }
+
+  private collectImporters(target: ModuleMetadata): string[] {
+    const importers = new Set<string>();
+    const queue = [target.id];
+
+    while (queue.length) {
+      const current = queue.shift()!;
+      this.modules.forEach((module) => {
+        const imports = module.imports.flatMap((imp) => [imp, ...(imp.dynamic?.imports ?? [])]);
+        if (module.id === target.id || importers.has(module.id) || !imports.some((imp) => imp.moduleId === current)) return;
+        importers.add(module.id);
+        queue.push(module.id);
+      });
+    }
+
+    return Array.from(importers);
+  }
+
+  private getRoutes(module: string, controller: string): string[] {
+    return this.routes
+      .filter((route) => route.module === module && route.controller === controller)
+      .map((route) => `${route.method} ${route.path}`);
+  }
+
+  private flatten(nodes: ImpactNode[]): ImpactNode[] {
+    return nodes.flatMap((node) => [node, ...this.flatten(node.dependents)]);
+  }
+}
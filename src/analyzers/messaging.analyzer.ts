@@ -0,0 +1,115 @@
+import * as path from 'path';
+import { MessageChannel, MessageFlow, MessageParticipant, MessagingReport } from '../types/messaging.types';
+import { MessageEndpoint, ModuleMetadata } from '../types/modules.types';
+import { matchGlob } from '../utils/glob.util';
+
+interface LocatedEndpoint {
+  endpoint: MessageEndpoint;
+  participant: MessageParticipant;
+}
+
+export class MessagingAnalyzer {
+  constructor(
+    private readonly modules: Map<string, ModuleMetadata>,
+    private readonly basePath?: string,
+  ) {}
+
+  /**
+   * Matches what providers and controllers send, emit or execute with the handlers consuming it.
+   * Microservice patterns, event-emitter events and CQRS classes only match within their own transport
+   * and kind, e.g. `client.emit()` reaches `@EventPattern()` but not `@MessagePattern()` handlers.
+   */
+  public analyze(): MessagingReport {
+    const producers = this.collect('produces');
+    const consumers = this.collect('consumes');
+
+    const keys = new Map<string, MessageEndpoint>();
+    [...producers, ...consumers].forEach(({ endpoint }) => keys.set(this.getKey(endpoint), endpoint));
+
+    const channels: MessageChannel[] = Array.from(keys.values())
+      .map(({ transport, kind, pattern }) => {
+        const channel = { transport, kind, pattern };
+        return {
+          ...channel,
+          producers: producers.filter(({ endpoint }) => this.isSameChannel(endpoint, channel) && this.matches(pattern, endpoint)),
+          consumers: consumers.filter(({ endpoint }) => this.isSameChannel(endpoint, channel) && this.matches(endpoint.pattern, channel)),
+        };
+      })
+      .map((channel) => ({
+        ...channel,
+        producers: channel.producers.map(({ participant }) => participant),
+        consumers: channel.consumers.map(({ participant }) => participant),
+      }))
+      .sort((a, b) => `${a.transport}:${a.kind}:${a.pattern}`.localeCompare(`${b.transport}:${b.kind}:${b.pattern}`));
+
+    const flows: MessageFlow[] = producers.flatMap((producer) =>
+      consumers
+        .filter(
+          (consumer) =>
+            this.isSameChannel(producer.endpoint, consumer.endpoint) && this.matches(consumer.endpoint.pattern, producer.endpoint),
+        )
+        .map((consumer) => ({
+          transport: producer.endpoint.transport,
+          kind: producer.endpoint.kind,
+          pattern: producer.endpoint.pattern,
+          from: producer.participant,
+          to: consumer.participant,
+        })),
+    );
+
+    return {
+      channels,
+      flows,
+      unhandled: channels.filter((channel) => channel.producers.length && !channel.consumers.length),
+      unemitted: channels.filter((channel) => channel.consumers.length && !channel.producers.length),
+    };
+  }
+
+  private collect(direction: 'produces' | 'consumes'): LocatedEndpoint[] {
+    return Array.from(this.modules.values()).flatMap((module) => {
+      const members = [
+        ...module.providers.map((member) => ({ member, kind: 'provider' as const, name: member.provide ?? member.name })),
+        ...module.controllers.map((member) => ({ member, kind: 'controller' as const, name: member.name })),
+      ];
+
+      return members.flatMap(({ member, kind, name }) =>
+        (member[direction] ?? []).map((endpoint) => ({
+          endpoint,
+          participant: {
+            kind,
+            name,
+            module: module.name,
+            moduleId: module.id,
+            method: endpoint.method,
+            filePath: this.getRelativePath(endpoint.filePath),
+            line: endpoint.line,
+          },
+        })),
+      );
+    });
+  }
+
+  private isSameChannel(a: Pick<MessageEndpoint, 'transport' | 'kind'>, b: Pick<MessageEndpoint, 'transport' | 'kind'>): boolean {
+    return a.transport === b.transport && a.kind === b.kind;
+  }
+
+  /**
+   * `@OnEvent()` handlers may use EventEmitter2 wildcards (`order.*`, `order.**`); every other pattern
+   * has to match exactly.
+   */
+  private matches(handlerPattern: string, emitted: Pick<MessageEndpoint, 'transport' | 'pattern'>): boolean {
+    if (handlerPattern === emitted.pattern) return true;
+    if (emitted.transport !== 'event-emitter' || !handlerPattern.includes('*')) return false;
+
+    return matchGlob(handlerPattern.split('.').join('/'), emitted.pattern.split('.').join('/'));
+  }
+
+  private getKey(endpoint: MessageEndpoint): string {
+    return `${endpoint.transport}\u0000${endpoint.kind}\u0000${endpoint.pattern}`;
+  }
+
+  private getRelativePath(filePath: string | undefined): string | undefined {
+    if (!filePath || !this.basePath) return filePath;
+    return path.relative(this.basePath, filePath).split(path.sep).join('/');
+  }
+}
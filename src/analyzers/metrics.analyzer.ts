@@ -0,0 +1,142 @@
+import { ModuleMetadata } from '../types/modules.types';
+import {
+  MetricsReport,
+  MetricThresholds,
+  ModuleMetric,
+  ModuleMetrics,
+  ProviderMetric,
+  ProviderMetrics,
+  ThresholdViolation,
+} from '../types/metrics.types';
+
+const MODULE_METRICS: ModuleMetric[] = ['afferent', 'efferent', 'instability', 'depth', 'providers', 'closure'];
+const PROVIDER_METRICS: ProviderMetric[] = ['fanIn', 'fanOut'];
+
+export class MetricsAnalyzer {
+  constructor(
+    private readonly modules: Map<string, ModuleMetadata>,
+    private readonly rootId?: string,
+  ) {}
+
+  public static isMetric(name: string): name is ModuleMetric | ProviderMetric {
+    return [...MODULE_METRICS, ...PROVIDER_METRICS].includes(name as ModuleMetric | ProviderMetric);
+  }
+
+  public analyze(thresholds: MetricThresholds = {}, top = 10): MetricsReport {
+    const modules = this.computeModuleMetrics();
+    const providers = this.computeProviderMetrics();
+
+    const rank = <T extends { score: number }>(items: T[]) =>
+      items
+        .filter((item) => item.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, top);
+
+    return {
+      root: this.rootId,
+      modules,
+      providers,
+      hotspots: { modules: rank(modules), providers: rank(providers) },
+      violations: this.checkThresholds(modules, providers, thresholds),
+    };
+  }
+
+  /**
+   * Coupling metrics after Robert C. Martin. A module's hotspot score is Ca × Ce plus its provider
+   * count: modules that many others depend on and that themselves depend on many others are the
+   * hardest to change, and a long provider list marks a "god module".
+   */
+  private computeModuleMetrics(): ModuleMetrics[] {
+    const importers = new Map<string, Set<string>>();
+    this.modules.forEach((module) => {
+      module.imports.forEach((imp) => {
+        if (imp.moduleId) importers.set(imp.moduleId, (importers.get(imp.moduleId) ?? new Set()).add(module.id));
+      });
+    });
+
+    return Array.from(this.modules.values()).map((module) => {
+      const afferent = importers.get(module.id)?.size ?? 0;
+      const efferent = new Set(module.imports.map((imp) => imp.moduleId ?? imp.name)).size;
+
+      return {
+        id: module.id,
+        name: module.name,
+        filePath: module.filePath,
+        afferent,
+        efferent,
+        instability: afferent + efferent ? Number((efferent / (afferent + efferent)).toFixed(2)) : 0,
+        depth: module.depth,
+        providers: module.providers.length,
+        controllers: module.controllers.length,
+        closure: this.getClosure(module.id).size,
+        score: afferent * efferent + module.providers.length,
+      };
+    });
+  }
+
+  /**
+   * Fan-in counts consumers in modules where the token resolves to this module's provider, so
+   * identically named providers of different modules are counted separately.
+   */
+  private computeProviderMetrics(): ProviderMetrics[] {
+    const consumers = Array.from(this.modules.values()).flatMap((module) =>
+      [...module.providers, ...module.controllers].map((consumer) => ({ module, consumer })),
+    );
+
+    return Array.from(this.modules.values()).flatMap((module) =>
+      module.providers.map((provider) => {
+        const token = provider.provide ?? provider.name;
+        const fanIn = consumers.filter(
+          ({ module: consumerModule, consumer }) =>
+            consumer !== provider &&
+            consumer.dependencies.includes(token) &&
+            consumerModule.visibleProviders?.find((visible) => visible.token === token)?.providedById === module.id,
+        ).length;
+        const fanOut = provider.dependencies.length;
+
+        return { token, module: module.name, fanIn, fanOut, score: fanIn * fanOut };
+      }),
+    );
+  }
+
+  private getClosure(moduleId: string): Set<string> {
+    const closure = new Set<string>();
+    const stack = [moduleId];
+    while (stack.length) {
+      this.modules.get(stack.pop()!)?.imports.forEach((imp) => {
+        const target = imp.moduleId ?? imp.name;
+        if (target === moduleId || closure.has(target)) return;
+        closure.add(target);
+        stack.push(target);
+      });
+    }
+    return closure;
+  }
+
+  private checkThresholds(modules: ModuleMetrics[], providers: ProviderMetrics[], thresholds: MetricThresholds): ThresholdViolation[] {
+    const violations: ThresholdViolation[] = [];
+
+    MODULE_METRICS.forEach((metric) => {
+      const max = thresholds[metric];
+      if (max === undefined) return;
+      modules.forEach((module) => {
+        const value = module[metric];
+        if (value !== undefined && value > max) {
+          violations.push({ metric, subject: module.name, filePath: module.filePath, value, max });
+        }
+      });
+    });
+
+    PROVIDER_METRICS.forEach((metric) => {
+      const max = thresholds[metric];
+      if (max === undefined) return;
+      providers.forEach((provider) => {
+        if (provider[metric] > max) {
+          violations.push({ metric, subject: `${provider.module}: ${provider.token}`, value: provider[metric], max });
+        }
+      });
+    });
+
+    return violations;
+  }
+}
@@ -0,0 +1,85 @@
+import { ModuleMetadata } from '../types/modules.types';
+import { ResolutionIssue } from '../types/resolution.types';
+
+/**
+ * Tokens registered by the Nest core module, which every module can inject without importing anything.
+ */
+export const CORE_TOKENS = new Set([
+  'Reflector',
+  'ModuleRef',
+  'HttpAdapterHost',
+  'ApplicationConfig',
+  'LazyModuleLoader',
+  'ModulesContainer',
+  'SerializedGraph',
+  'REQUEST',
+  'INQUIRER',
+]);
+
+export class ResolutionAnalyzer {
+  constructor(private readonly modules: Map<string, ModuleMetadata>) {}
+
+  /**
+   * Mirrors Nest's injector scoping: a constructor dependency resolves if its token is in the module's
+   * visible-provider set computed by DependencyAnalyzer (own providers, imported exports and globals).
+   */
+  public analyze(): ResolutionIssue[] {
+    const issues: ResolutionIssue[] = [];
+
+    this.modules.forEach((module) => {
+      const moduleName = module.name;
+      const visible = new Set((module.visibleProviders ?? []).map((provider) => provider.token));
+      const externalImports = module.imports.filter((imp) => !imp.moduleId).map((imp) => imp.name);
+
+      const consumers = [
+        ...module.providers.map((provider) => ({ ...provider, type: 'provider' as const })),
+        ...module.controllers.map((controller) => ({ ...controller, type: 'controller' as const })),
+      ];
+
+      consumers.forEach((consumer) => {
+        consumer.dependencies
+          .filter((token) => !visible.has(token) && !CORE_TOKENS.has(token))
+          .filter((token) => !consumer.injections?.some((injection) => injection.token === token && injection.isOptional))
+          .forEach((token) => {
+            const index = consumer.injections?.find((injection) => injection.token === token)?.index;
+            const position = index !== undefined ? ` (argument at index [${index}])` : '';
+
+            issues.push({
+              severity: externalImports.length ? 'warning' : 'error',
+              module: moduleName,
+              filePath: module.filePath,
+              consumer: consumer.name,
+              consumerType: consumer.type,
+              token,
+              index,
+              message: externalImports.length
+                ? `${token} is not provided by ${moduleName} or its analyzed imports; it may come from ${externalImports.join(', ')}`
+                : `Nest can't resolve dependencies of ${consumer.name}: ${token}${position} is not available in the ${moduleName} context`,
+              suggestion: this.suggestFix(token, module),
+            });
+          });
+      });
+    });
+
+    return issues;
+  }
+
+  private suggestFix(token: string, module: ModuleMetadata): string {
+    const moduleName = module.name;
+    const exporters = Array.from(this.modules.values()).filter(
+      (candidate) => candidate.id !== module.id && !!candidate.exportedProviders?.includes(token),
+    );
+    if (exporters.length) {
+      return `Add ${exporters.map((candidate) => candidate.name).join(' or ')} to the imports of ${moduleName}`;
+    }
+
+    const owner = Array.from(this.modules.values()).find((candidate) =>
+      candidate.providers.some((provider) => provider.name === token || provider.provide === token),
+    );
+    if (owner && owner.id !== module.id) {
+      return `Export ${token} from ${owner.name} and add ${owner.name} to the imports of ${moduleName}`;
+    }
+
+    return `Add ${token} to the providers of ${moduleName}`;
+  }
+}
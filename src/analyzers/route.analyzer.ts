@@ -0,0 +1,145 @@
+import { BootstrapMetadata } from '../types/bootstrap.types';
+import { ControllerMetadata, EnhancerMetadata, ModuleMetadata, RouteMetadata } from '../types/modules.types';
+import { EnhancerBinding, EnhancerLevel, ResolvedRoute } from '../types/routes.types';
+import { DependencyAnalyzer } from './dependency.analyzer';
+
+/**
+ * Enhancers registered as providers with these tokens apply to every route, like `app.useGlobal*()`.
+ */
+const GLOBAL_ENHANCER_TOKENS: Record<string, keyof EnhancerMetadata> = {
+  APP_GUARD: 'guards',
+  APP_INTERCEPTOR: 'interceptors',
+  APP_PIPE: 'pipes',
+  APP_FILTER: 'filters',
+};
+
+const VERSION_NEUTRAL = 'VERSION_NEUTRAL';
+
+export class RouteAnalyzer {
+  constructor(
+    private readonly modules: Map<string, ModuleMetadata>,
+    private readonly bootstrap?: BootstrapMetadata,
+  ) {}
+
+  /**
+   * Routes of every application found by `analyzer`. Each bootstrap file sets the global prefix,
+   * versioning and global enhancers for the modules its root module imports only, so in a monorepo
+   * every application is resolved on its own; a module shared by several of them is listed once per
+   * application. Modules no application imports are listed without bootstrap settings.
+   */
+  public static analyzeApplications(analyzer: DependencyAnalyzer, modules: Map<string, ModuleMetadata>): ResolvedRoute[] {
+    const applications = analyzer
+      .getBootstraps()
+      .map((bootstrap) => ({ bootstrap, root: analyzer.findRootModule(bootstrap) }))
+      .filter((application): application is { bootstrap: BootstrapMetadata; root: ModuleMetadata } => !!application.root);
+    if (applications.length <= 1) {
+      return new RouteAnalyzer(modules, applications[0]?.bootstrap ?? analyzer.getBootstrap()).analyze();
+    }
+
+    const served = new Set<string>();
+    const routes = applications.flatMap(({ bootstrap, root }) => {
+      const applicationModules = DependencyAnalyzer.filterImportedFrom(modules, root.id);
+      applicationModules.forEach((_, moduleId) => served.add(moduleId));
+      return new RouteAnalyzer(applicationModules, bootstrap).analyze();
+    });
+    const unserved = new Map(Array.from(modules).filter(([moduleId]) => !served.has(moduleId)));
+
+    return [...routes, ...new RouteAnalyzer(unserved).analyze()].sort(RouteAnalyzer.compareRoutes);
+  }
+
+  private static compareRoutes(a: ResolvedRoute, b: ResolvedRoute): number {
+    return a.path.localeCompare(b.path) || a.method.localeCompare(b.method);
+  }
+
+  public analyze(): ResolvedRoute[] {
+    const globalEnhancers = this.collectGlobalEnhancers();
+    const routes: ResolvedRoute[] = [];
+
+    this.modules.forEach((module) => {
+      module.controllers.forEach((controller) => {
+        (controller.routes ?? []).forEach((route) => {
+          this.getVersions(controller, route).forEach((version) => {
+            routes.push({
+              method: route.method,
+              path: this.buildPath(controller, route, version),
+              version,
+              module: module.name,
+              controller: controller.name,
+              handler: route.handler,
+              guards: this.bindEnhancers('guards', globalEnhancers, controller.enhancers, route.enhancers),
+              interceptors: this.bindEnhancers('interceptors', globalEnhancers, controller.enhancers, route.enhancers),
+              pipes: this.bindEnhancers('pipes', globalEnhancers, controller.enhancers, route.enhancers),
+              filters: this.bindEnhancers('filters', globalEnhancers, controller.enhancers, route.enhancers),
+            });
+          });
+        });
+      });
+    });
+
+    return routes.sort(RouteAnalyzer.compareRoutes);
+  }
+
+  private collectGlobalEnhancers(): EnhancerMetadata {
+    const enhancers: EnhancerMetadata = {
+      guards: [...(this.bootstrap?.enhancers.guards ?? [])],
+      interceptors: [...(this.bootstrap?.enhancers.interceptors ?? [])],
+      pipes: [...(this.bootstrap?.enhancers.pipes ?? [])],
+      filters: [...(this.bootstrap?.enhancers.filters ?? [])],
+    };
+
+    this.modules.forEach((module) => {
+      module.providers.forEach((provider) => {
+        const kind = provider.provide ? GLOBAL_ENHANCER_TOKENS[provider.provide] : undefined;
+        if (kind) {
+          enhancers[kind].push(provider.useClass ?? provider.useExisting ?? provider.useFactory ?? provider.name);
+        }
+      });
+    });
+
+    return enhancers;
+  }
+
+  private bindEnhancers(
+    kind: keyof EnhancerMetadata,
+    global: EnhancerMetadata,
+    controller: EnhancerMetadata | undefined,
+    method: EnhancerMetadata,
+  ): EnhancerBinding[] {
+    const bind = (names: string[], level: EnhancerLevel) => names.map((name) => ({ name, level }));
+
+    return [...bind(global[kind], 'global'), ...bind(controller?.[kind] ?? [], 'controller'), ...bind(method[kind], 'method')];
+  }
+
+  /**
+   * Method-level `@Version()` wins over the controller version, which wins over the default version
+   * configured in `enableVersioning()`. Without versioning enabled, versions are ignored entirely.
+   */
+  private getVersions(controller: ControllerMetadata, route: RouteMetadata): (string | undefined)[] {
+    if (!this.bootstrap?.versioning) return [undefined];
+
+    const versions = route.version ?? controller.version ?? this.bootstrap.versioning.defaultVersion;
+    return versions?.length ? versions : [undefined];
+  }
+
+  private buildPath(controller: ControllerMetadata, route: RouteMetadata, version: string | undefined): string {
+    const versioning = this.bootstrap?.versioning;
+    const versionSegment =
+      versioning?.type === 'URI' && version && version !== VERSION_NEUTRAL ? `${versioning.prefix ?? 'v'}${version}` : undefined;
+
+    const routePath = this.joinSegments([controller.path, route.path]);
+    const isExcluded = this.bootstrap?.globalPrefixExclude.some((excluded) => this.joinSegments([excluded]) === routePath);
+    const prefix = isExcluded ? undefined : this.bootstrap?.globalPrefix;
+
+    return this.joinSegments([prefix, versionSegment, controller.path, route.path]);
+  }
+
+  private joinSegments(segments: (string | undefined)[]): string {
+    const path = segments
+      .filter((segment): segment is string => !!segment)
+      .map((segment) => segment.replace(/^\/+|\/+$/g, ''))
+      .filter((segment) => segment.length > 0)
+      .join('/');
+
+    return `/${path}`;
+  }
+}
@@ -0,0 +1,231 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ImportMetadata, InjectionMetadata, ModuleMetadata } from '../types/modules.types';
+import {
+  AllowedImportsRule,
+  ArchitectureRule,
+  CrossFeatureInjectionRule,
+  ForbiddenImportRule,
+  MaxImportersRule,
+  ModuleSelector,
+  RulesConfig,
+  RuleViolation,
+} from '../types/rules.types';
+import { globToRegExp, matchGlob } from '../utils/glob.util';
+import { DependencyAnalyzer } from './dependency.analyzer';
+
+export const RULES_FILE_NAME = 'nestjs-analyzer.rules.json';
+
+const DEFAULT_REPOSITORY_TOKENS = ['*Repository', 'InjectRepository(*)', 'getRepositoryToken(*)'];
+
+export class RuleAnalyzer {
+  constructor(
+    private readonly modules: Map<string, ModuleMetadata>,
+    private readonly basePath: string,
+  ) {}
+
+  public static async loadRules(basePath: string, rulesPath?: string): Promise<RulesConfig> {
+    const filePath = path.resolve(basePath, rulesPath ?? RULES_FILE_NAME);
+
+    let config: RulesConfig;
+    try {
+      config = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Cannot read rules file ${filePath}: ${(error as Error).message}`);
+    }
+
+    if (!Array.isArray(config.rules)) {
+      throw new Error(`Rules file ${filePath} must contain a "rules" array`);
+    }
+    return config;
+  }
+
+  public analyze(rules: ArchitectureRule[]): RuleViolation[] {
+    return rules.flatMap((rule, index) => {
+      const name = rule.name ?? `${rule.type}#${index + 1}`;
+
+      switch (rule.type) {
+        case 'forbidden-import':
+          return this.checkForbiddenImports(name, rule);
+        case 'allowed-imports':
+          return this.checkAllowedImports(name, rule);
+        case 'max-importers':
+          return this.checkMaxImporters(name, rule);
+        case 'no-cross-feature-injection':
+          return this.checkCrossFeatureInjections(name, rule);
+        default:
+          throw new Error(`Unknown rule type "${(rule as ArchitectureRule).type}" in rule ${name}`);
+      }
+    });
+  }
+
+  private checkForbiddenImports(name: string, rule: ForbiddenImportRule): RuleViolation[] {
+    return this.collectImports(rule.from)
+      .filter(({ imp }) => this.matchesImport(rule.to, imp))
+      .map(({ module, imp }) =>
+        this.createViolation(name, rule, module, imp.line, `${module.name} must not import ${this.getImportName(imp)}`),
+      );
+  }
+
+  private checkAllowedImports(name: string, rule: AllowedImportsRule): RuleViolation[] {
+    return this.collectImports(rule.from)
+      .filter(({ imp }) => (imp.moduleId || rule.includeExternal) && !this.matchesImport(rule.allow, imp))
+      .map(({ module, imp }) =>
+        this.createViolation(
+          name,
+          rule,
+          module,
+          imp.line,
+          `${module.name} may not import ${this.getImportName(imp)}: not an allowed dependency`,
+        ),
+      );
+  }
+
+  private checkMaxImporters(name: string, rule: MaxImportersRule): RuleViolation[] {
+    const importers = new Map<string, Set<string>>();
+    this.modules.forEach((module) => {
+      module.imports.forEach((imp) => {
+        if (!imp.moduleId) return;
+        importers.set(imp.moduleId, (importers.get(imp.moduleId) ?? new Set()).add(module.id));
+      });
+    });
+
+    const violations: RuleViolation[] = [];
+    importers.forEach((importerIds, moduleId) => {
+      const module = this.modules.get(moduleId);
+      if (!module || importerIds.size <= rule.max) return;
+      if (rule.modules && !this.matchesModule(rule.modules, module)) return;
+      if (rule.except && this.matchesModule(rule.except, module)) return;
+
+      const names = Array.from(importerIds).map((id) => this.modules.get(id)?.name ?? id);
+      violations.push(
+        this.createViolation(
+          name,
+          rule,
+          module,
+          module.line,
+          `${module.name} is imported by ${importerIds.size} modules (max ${rule.max}): ${names.join(', ')}`,
+        ),
+      );
+    });
+    return violations;
+  }
+
+  /**
+   * Reports injections of guarded tokens (repositories by default) whose provider is registered by a
+   * module of another feature. `@InjectRepository(Entity)` has no static token, so it is attributed to
+   * the module that registers `Entity` through a `forFeature()` import.
+   */
+  private checkCrossFeatureInjections(name: string, rule: CrossFeatureInjectionRule): RuleViolation[] {
+    const tokens = rule.tokens ?? DEFAULT_REPOSITORY_TOKENS;
+    const violations: RuleViolation[] = [];
+
+    this.modules.forEach((module) => {
+      const feature = this.getFeature(rule.features, module);
+      if (!feature) return;
+
+      const consumers = [...module.providers, ...module.controllers];
+      consumers.forEach((consumer) => {
+        (consumer.injections ?? [])
+          .filter((injection) => matchGlob(tokens, injection.token))
+          .forEach((injection) => {
+            const source = this.findTokenSource(module, injection);
+            const sourceFeature = source && this.getFeature(rule.features, source);
+            if (!source || !sourceFeature || sourceFeature === feature) return;
+
+            violations.push({
+              ...this.createViolation(
+                name,
+                rule,
+                module,
+                module.line,
+                `${consumer.name} in feature ${feature} injects ${injection.token} from ${source.name} (feature ${sourceFeature})`,
+              ),
+              ...(injection.filePath ? { filePath: this.getRelativePath(injection.filePath), line: injection.line } : {}),
+            });
+          });
+      });
+    });
+
+    return violations;
+  }
+
+  private findTokenSource(module: ModuleMetadata, injection: InjectionMetadata): ModuleMetadata | undefined {
+    const entity = injection.tokenKind === 'custom' ? /\(\s*([\w$.]+)/.exec(injection.token)?.[1] : undefined;
+    if (entity) {
+      const registers = (candidate: ModuleMetadata) => candidate.imports.some((imp) => imp.dynamic?.features.includes(entity));
+      if (registers(module)) return module;
+
+      return Array.from(this.modules.values()).find(
+        (candidate) => registers(candidate) && module.imports.some((imp) => imp.moduleId === candidate.id),
+      );
+    }
+
+    return DependencyAnalyzer.resolveProvider(this.modules, module, injection.token)?.module;
+  }
+
+  /**
+   * Returns the feature directory a module belongs to, e.g. `src/features/orders` for the pattern
+   * `src/features/*`, or undefined when the module lives outside every feature.
+   */
+  private getFeature(pattern: string, module: ModuleMetadata): string | undefined {
+    const depth = pattern.split('/').length;
+    const segments = this.getModulePath(module).split('/');
+    if (segments.length <= depth) return undefined;
+
+    const root = segments.slice(0, depth).join('/');
+    return globToRegExp(pattern).test(root) ? root : undefined;
+  }
+
+  private collectImports(selector: ModuleSelector): { module: ModuleMetadata; imp: ImportMetadata }[] {
+    return Array.from(this.modules.values())
+      .filter((module) => this.matchesModule(selector, module))
+      .flatMap((module) => module.imports.map((imp) => ({ module, imp })));
+  }
+
+  private matchesImport(selector: ModuleSelector, imp: ImportMetadata): boolean {
+    const target = imp.moduleId ? this.modules.get(imp.moduleId) : undefined;
+    if (target) return this.matchesModule(selector, target);
+
+    return this.toArray(selector).some((pattern) => !pattern.includes('/') && matchGlob(pattern, imp.name));
+  }
+
+  private matchesModule(selector: ModuleSelector, module: ModuleMetadata): boolean {
+    return this.toArray(selector).some((pattern) =>
+      pattern.includes('/') ? matchGlob(pattern, this.getModulePath(module)) : matchGlob(pattern, module.name),
+    );
+  }
+
+  private getImportName(imp: ImportMetadata): string {
+    return imp.dynamic ? `${imp.name}.${imp.dynamic.method}()` : imp.name;
+  }
+
+  private createViolation(
+    name: string,
+    rule: ArchitectureRule,
+    module: ModuleMetadata,
+    line: number | undefined,
+    message: string,
+  ): RuleViolation {
+    return {
+      rule: name,
+      severity: rule.severity ?? 'error',
+      module: module.name,
+      message: rule.description ? `${message} (${rule.description})` : message,
+      filePath: this.getModulePath(module),
+      line,
+    };
+  }
+
+  private getModulePath(module: ModuleMetadata): string {
+    return module.filePath ? this.getRelativePath(module.filePath) : module.id.split('#')[0];
+  }
+
+  private getRelativePath(filePath: string): string {
+    return path.relative(this.basePath, filePath).split(path.sep).join('/');
+  }
+
+  private toArray(selector: ModuleSelector): string[] {
+    return Array.isArray(selector) ? selector : [selector];
+  }
+}
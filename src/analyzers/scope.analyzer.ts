@@ -0,0 +1,95 @@
+import * as path from 'path';
+import { ControllerMetadata, ModuleMetadata, ProviderMetadata, ProviderScope } from '../types/modules.types';
+import { ScopedConsumer } from '../types/scope.types';
+import { DependencyAnalyzer } from './dependency.analyzer';
+
+/**
+ * Tokens Nest registers per request; injecting them makes the consumer request-scoped.
+ */
+const REQUEST_TOKENS = ['REQUEST', 'CONTEXT'];
+
+interface EffectiveScope {
+  scope: ProviderScope;
+  durable: boolean;
+  chain: string[];
+}
+
+export class ScopeAnalyzer {
+  private readonly scopes = new Map<ProviderMetadata | ControllerMetadata, EffectiveScope>();
+  private readonly visiting = new Set<ProviderMetadata | ControllerMetadata>();
+
+  constructor(
+    private readonly modules: Map<string, ModuleMetadata>,
+    private readonly basePath?: string,
+  ) {}
+
+  /**
+   * Mirrors how Nest bubbles scope up the injection graph: a provider or controller injecting a
+   * request-scoped provider is itself instantiated per request, whatever scope it declares. It stays
+   * durable only when every request-scoped dependency is durable. Transient dependencies do not bubble.
+   */
+  public analyze(): ScopedConsumer[] {
+    const scoped: ScopedConsumer[] = [];
+
+    this.modules.forEach((module) => {
+      const consumers = [
+        ...module.providers.map((consumer) => ({ consumer, kind: 'provider' as const, name: consumer.provide ?? consumer.name })),
+        ...module.controllers.map((consumer) => ({ consumer, kind: 'controller' as const, name: consumer.name })),
+      ];
+
+      consumers.forEach(({ consumer, kind, name }) => {
+        const effective = this.getEffectiveScope(module, consumer);
+        if (effective.scope === 'DEFAULT') return;
+
+        const isImplicit = effective.scope !== (consumer.scope ?? 'DEFAULT');
+        scoped.push({
+          name,
+          kind,
+          module: module.name,
+          moduleId: module.id,
+          scope: effective.scope,
+          declaredScope: consumer.scope,
+          isImplicit,
+          durable: effective.durable,
+          cause: isImplicit ? effective.chain[0] : undefined,
+          chain: effective.chain,
+          filePath:
+            module.filePath && this.basePath ? path.relative(this.basePath, module.filePath).split(path.sep).join('/') : module.filePath,
+          line: consumer.line ?? module.line,
+        });
+      });
+    });
+
+    return scoped;
+  }
+
+  private getEffectiveScope(module: ModuleMetadata, consumer: ProviderMetadata | ControllerMetadata): EffectiveScope {
+    const cached = this.scopes.get(consumer);
+    if (cached) return cached;
+
+    const declared: EffectiveScope = { scope: consumer.scope ?? 'DEFAULT', durable: !!consumer.durable, chain: [] };
+    // A cycle is reported by CycleAnalyzer; here it simply does not contribute a scope
+    if (declared.scope === 'REQUEST' || this.visiting.has(consumer)) return declared;
+
+    this.visiting.add(consumer);
+    const tokens = consumer.injections?.map((injection) => injection.token) ?? consumer.dependencies;
+    const requestScoped = tokens.flatMap((token): EffectiveScope[] => {
+      if (REQUEST_TOKENS.includes(token)) return [{ scope: 'REQUEST', durable: false, chain: [token] }];
+
+      const dependency = DependencyAnalyzer.resolveProvider(this.modules, module, token);
+      const effective = dependency?.provider && this.getEffectiveScope(dependency.module, dependency.provider);
+      return effective?.scope === 'REQUEST' ? [{ ...effective, chain: [token, ...effective.chain] }] : [];
+    });
+    this.visiting.delete(consumer);
+
+    const effective: EffectiveScope = requestScoped.length
+      ? {
+          scope: 'REQUEST',
+          durable: consumer.durable ?? requestScoped.every((dependency) => dependency.durable),
+          chain: requestScoped[0].chain,
+        }
+      : declared;
+    this.scopes.set(consumer, effective);
+    return effective;
+  }
+}
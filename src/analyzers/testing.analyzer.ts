@@ -0,0 +1,239 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { AstParser } from '../parsers/ast.parser';
+import { ProgramLoader } from '../parsers/program.loader';
+import { Diagnostic } from '../types/diagnostics.types';
+import { ModuleMetadata, ProviderMetadata } from '../types/modules.types';
+import {
+  MissingTestDependency,
+  MockedProvider,
+  TestCoverageReport,
+  TestingModuleMetadata,
+  TestSetupReport,
+  UncoveredMember,
+} from '../types/testing.types';
+import { DependencyAnalyzer } from './dependency.analyzer';
+import { CORE_TOKENS } from './resolution.analyzer';
+
+export class TestingAnalyzer {
+  private diagnostics: Diagnostic[] = [];
+
+  constructor(
+    private readonly basePath: string,
+    private readonly analyzer: DependencyAnalyzer,
+    private readonly modules: Map<string, ModuleMetadata>,
+  ) {}
+
+  /**
+   * Compares the `Test.createTestingModule()` setups of the spec files found by `analyzer` with the
+   * analyzed modules: what each setup mocks and creates for real, which dependencies it cannot resolve
+   * and which providers and controllers no setup creates for real.
+   */
+  public async analyze(): Promise<TestCoverageReport> {
+    this.diagnostics = [];
+    const setups = (await this.parseTestFiles()).map((testingModule) => this.analyzeSetup(testingModule));
+    return { setups, uncovered: this.findUncovered(setups) };
+  }
+
+  /**
+   * Spec files that could not be read or parsed, and testing module metadata the parser skipped.
+   */
+  public getDiagnostics(): Diagnostic[] {
+    return this.diagnostics;
+  }
+
+  /**
+   * Only files calling `createTestingModule` are loaded into the TypeScript program, so unit tests
+   * without a testing module cost a file read.
+   */
+  private async parseTestFiles(): Promise<TestingModuleMetadata[]> {
+    const sources = await Promise.all(
+      this.analyzer.getTestFiles().map(async (filePath) => {
+        try {
+          return { filePath, content: await fs.readFile(filePath, 'utf-8') };
+        } catch (error) {
+          this.addDiagnostic('unreadable-file', filePath, `Cannot read file: ${(error as Error).message}`);
+          return null;
+        }
+      }),
+    );
+    const specs = sources.filter(
+      (source): source is { filePath: string; content: string } => !!source?.content.includes('createTestingModule'),
+    );
+    if (!specs.length) return [];
+
+    const program = new ProgramLoader(this.basePath, this.analyzer.getOptions().tsconfig).load(
+      specs.map((spec) => spec.filePath),
+      false,
+    );
+    return specs.flatMap((spec) => {
+      const parser = new AstParser(spec.content, spec.filePath, program);
+      try {
+        const testingModules = parser.parseTestingModules();
+        this.diagnostics.push(...parser.getDiagnostics());
+        return testingModules;
+      } catch (error) {
+        this.addDiagnostic('parse-error', spec.filePath, `Cannot parse test file: ${(error as Error).message}`);
+        return [];
+      }
+    });
+  }
+
+  private analyzeSetup(testingModule: TestingModuleMetadata): TestSetupReport {
+    const replacedModules = new Set(
+      testingModule.overrides.filter((override) => override.kind === 'module').map((override) => override.token),
+    );
+    const imported = testingModule.imports
+      .filter((imp) => !replacedModules.has(imp.name))
+      .map((imp) => ({ imp, module: this.analyzer.findModule(imp.name, imp.path) }));
+    const directModules = imported.flatMap(({ module }) => (module ? [module] : []));
+    const loadedModules = this.collectModules(directModules, replacedModules);
+
+    const mocked: MockedProvider[] = [];
+    const real = new Set<string>();
+    testingModule.providers.forEach((provider) => {
+      const token = provider.provide ?? provider.name;
+      const via = this.getMockType(provider);
+      if (via) {
+        mocked.push({ token, via, kind: 'provider' });
+      } else {
+        real.add(token);
+      }
+    });
+    testingModule.controllers.forEach((controller) => real.add(controller.name));
+    loadedModules.forEach((module) => {
+      module.providers.forEach((provider) => real.add(provider.provide ?? provider.name));
+      module.controllers.forEach((controller) => real.add(controller.name));
+    });
+    testingModule.overrides.forEach((override) => {
+      real.delete(override.token);
+      mocked.push({ token: override.token, via: 'override', kind: override.kind });
+    });
+
+    const externalImports = imported.filter(({ module }) => !module).map(({ imp }) => imp.name);
+    const visible = new Set([
+      ...testingModule.providers.map((provider) => provider.provide ?? provider.name),
+      ...directModules.flatMap((module) => module.exportedProviders ?? []),
+      ...loadedModules.filter((module) => module.isGlobal).flatMap((module) => module.exportedProviders ?? []),
+    ]);
+
+    return {
+      filePath: this.getRelativePath(testingModule.filePath),
+      line: testingModule.line,
+      ...(testingModule.suite ? { suite: testingModule.suite } : {}),
+      modules: loadedModules.map((module) => module.id),
+      real: Array.from(real),
+      mocked,
+      missing: this.findMissingDependencies(testingModule, visible, externalImports),
+    };
+  }
+
+  /**
+   * Mirrors ResolutionAnalyzer for the providers and controllers registered by the test itself; the
+   * ones registered by imported modules are covered by `validate`. Overridden providers are never
+   * created, so their dependencies do not matter.
+   */
+  private findMissingDependencies(
+    testingModule: TestingModuleMetadata,
+    visible: Set<string>,
+    externalImports: string[],
+  ): MissingTestDependency[] {
+    const overridden = new Set(testingModule.overrides.map((override) => override.token));
+    const consumers = [
+      ...testingModule.providers.map((provider) => ({ ...provider, token: provider.provide ?? provider.name, type: 'provider' as const })),
+      ...testingModule.controllers.map((controller) => ({ ...controller, token: controller.name, type: 'controller' as const })),
+    ].filter((consumer) => !overridden.has(consumer.token));
+
+    return consumers.flatMap((consumer) =>
+      consumer.dependencies
+        .filter((token) => !visible.has(token) && !CORE_TOKENS.has(token))
+        .filter((token) => !consumer.injections?.some((injection) => injection.token === token && injection.isOptional))
+        .map((token) => ({
+          severity: externalImports.length ? ('warning' as const) : ('error' as const),
+          consumer: consumer.name,
+          consumerType: consumer.type,
+          token,
+          message: externalImports.length
+            ? `${token} is not provided by the testing module or its analyzed imports; it may come from ${externalImports.join(', ')}`
+            : `Nest can't resolve dependencies of ${consumer.name}: ${token} is not available in the testing module`,
+          suggestion: this.suggestFix(token),
+        })),
+    );
+  }
+
+  private suggestFix(token: string): string {
+    const mock = `mock it with { provide: ${token}, useValue: ... }`;
+    const exporters = Array.from(this.modules.values()).filter((module) => !!module.exportedProviders?.includes(token));
+    if (exporters.length) {
+      return `Import ${exporters.map((module) => module.name).join(' or ')}, or ${mock}`;
+    }
+    return `Add ${token} to the providers, or ${mock}`;
+  }
+
+  /**
+   * Providers and controllers of the analyzed modules that no setup creates from the real class. Value
+   * and alias providers have no code of their own and are left out.
+   */
+  private findUncovered(setups: TestSetupReport[]): UncoveredMember[] {
+    const real = new Set(setups.flatMap((setup) => setup.real));
+    const mockedIn = (token: string) => setups.filter((setup) => setup.mocked.some((mocked) => mocked.token === token)).length;
+
+    return Array.from(this.modules.values()).flatMap((module) => {
+      const members = [
+        ...module.providers
+          .filter((provider) => provider.type === 'class' || provider.type === 'factory')
+          .map((provider) => ({ kind: 'provider' as const, name: provider.provide ?? provider.name, line: provider.line })),
+        ...module.controllers.map((controller) => ({ kind: 'controller' as const, name: controller.name, line: controller.line })),
+      ];
+
+      return members
+        .filter((member) => !real.has(member.name))
+        .map((member) => ({
+          ...member,
+          module: module.name,
+          moduleId: module.id,
+          filePath: module.filePath && this.getRelativePath(module.filePath),
+          mockedIn: mockedIn(member.name),
+        }));
+    });
+  }
+
+  /**
+   * Modules created by the testing module: the imported ones and, transitively, everything they import.
+   */
+  private collectModules(directModules: ModuleMetadata[], replacedModules: Set<string>): ModuleMetadata[] {
+    const visited = new Map<string, ModuleMetadata>();
+    const queue = [...directModules];
+
+    while (queue.length) {
+      const module = queue.shift()!;
+      if (visited.has(module.id)) continue;
+      visited.set(module.id, module);
+
+      module.imports
+        .flatMap((imp) => [imp, ...(imp.dynamic?.imports ?? [])])
+        .filter((imp) => imp.moduleId && !replacedModules.has(imp.name))
+        .forEach((imp) => {
+          const imported = this.modules.get(imp.moduleId!);
+          if (imported) queue.push(imported);
+        });
+    }
+
+    return Array.from(visited.values());
+  }
+
+  private getMockType(provider: ProviderMetadata): MockedProvider['via'] | undefined {
+    if (provider.type === 'value') return 'useValue';
+    if (provider.type === 'factory') return 'useFactory';
+    if (provider.useClass && provider.useClass !== provider.provide) return 'useClass';
+    return undefined;
+  }
+
+  private addDiagnostic(code: Diagnostic['code'], filePath: string, message: string): void {
+    this.diagnostics.push({ severity: 'error', code, message, filePath });
+  }
+
+  private getRelativePath(filePath: string): string {
+    return path.relative(this.basePath, filePath).split(path.sep).join('/');
+  }
+}
@@ -0,0 +1,171 @@
+import * as path from 'path';
+import { ControllerMetadata, ModuleMetadata, ProviderMetadata } from '../types/modules.types';
+import { UnusedFinding, UnusedReport } from '../types/unused.types';
+import { matchGlob } from '../utils/glob.util';
+
+/**
+ * Tokens Nest resolves by itself when the application starts, so registering them is their only use.
+ */
+const ENHANCER_TOKENS = ['APP_GUARD', 'APP_INTERCEPTOR', 'APP_PIPE', 'APP_FILTER'];
+
+export class UnusedAnalyzer {
+  /** `module\0token` of providers injected by at least one consumer. */
+  private readonly injectedProviders = new Set<string>();
+  /** `module\0token` of exports, and `module\0reExportedModule` of re-exports, consumed by an importer. */
+  private readonly consumedExports = new Set<string>();
+  /** Tokens used where the providing module cannot be determined; every provider and export of them counts as used. */
+  private readonly looseTokens = new Set<string>();
+
+  constructor(
+    private readonly modules: Map<string, ModuleMetadata>,
+    private readonly basePath: string,
+    private readonly rootModules: ModuleMetadata[] = [],
+  ) {}
+
+  /**
+   * Entry points are globs of tokens that are used without being injected, for example services
+   * resolved with `moduleRef.get()` or `app.get()`.
+   */
+  public analyze(entryPoints: string[] = []): UnusedReport {
+    const liveModules = Array.from(this.modules.values()).filter((module) => module.isReachable !== false);
+    const isEntryPoint = (token: string) => ENHANCER_TOKENS.includes(token) || matchGlob(entryPoints, token);
+
+    this.collectUsages(liveModules);
+
+    const findings: UnusedFinding[] = [];
+    liveModules.forEach((module) => {
+      module.providers
+        .filter((provider) => !this.isProviderUsed(module, provider) && !isEntryPoint(provider.provide ?? provider.name))
+        .forEach((provider) => findings.push(this.createProviderFinding(module, provider)));
+
+      module.exports
+        .filter((token) => !this.isUsed(this.consumedExports, module, token) && !isEntryPoint(token))
+        .forEach((token) =>
+          findings.push(this.createFinding('export', module, token, `${token} is exported by ${module.name} but no importer injects it`)),
+        );
+
+      module.reExports
+        .filter((name) => this.isTrackedReExport(module, name) && !this.consumedExports.has(`${module.name}\u0000${name}`))
+        .forEach((name) =>
+          findings.push(
+            this.createFinding('export', module, name, `${module.name} re-exports ${name} but no importer uses its exported providers`),
+          ),
+        );
+    });
+
+    if (this.rootModules.length) {
+      const rootName = this.rootModules.map((module) => module.name).join(' or ');
+      this.modules.forEach((module) => {
+        if (module.isReachable !== false) return;
+
+        findings.push(
+          this.createFinding('module', module, module.name, `${module.name} is not imported, directly or indirectly, by ${rootName}`),
+        );
+        module.controllers.forEach((controller) => findings.push(this.createControllerFinding(module, controller, rootName)));
+      });
+    }
+
+    return { roots: this.rootModules.map((module) => module.id), findings };
+  }
+
+  /**
+   * Attributes every injected token to the module providing it, using the visible providers computed by
+   * DependencyAnalyzer, so a token injected through an import consumes that import's export and marks
+   * each module of the re-export chain as used.
+   */
+  private collectUsages(modules: ModuleMetadata[]): void {
+    modules.forEach((module) => {
+      const consumers = [...module.providers, ...module.controllers];
+      const tokens = new Set(
+        consumers.flatMap((consumer) => [
+          ...consumer.dependencies,
+          ...(consumer.injections ?? []).flatMap((injection) => [injection.token, injection.resolvedTo ?? injection.token]),
+        ]),
+      );
+
+      tokens.forEach((token) => {
+        const visible = module.visibleProviders?.find((provider) => provider.token === token);
+        if (!visible) {
+          this.looseTokens.add(token);
+          return;
+        }
+
+        this.injectedProviders.add(`${visible.providedBy}\u0000${token}`);
+        if (visible.source === 'local') return;
+
+        this.consumedExports.add(`${visible.providedBy}\u0000${token}`);
+        visible.via.slice(1).forEach((name, index) => this.consumedExports.add(`${visible.via[index]}\u0000${name}`));
+      });
+
+      // `inject` of async dynamic modules and enhancers resolve in contexts the graph does not model
+      module.imports.forEach((imp) => imp.dynamic?.inject.forEach((token) => this.looseTokens.add(token)));
+      module.controllers.forEach((controller) => this.getEnhancers(controller).forEach((token) => this.looseTokens.add(token)));
+    });
+  }
+
+  private getEnhancers(controller: ControllerMetadata): string[] {
+    return [controller.enhancers, ...(controller.routes ?? []).map((route) => route.enhancers)].flatMap((enhancers) =>
+      enhancers ? [...enhancers.guards, ...enhancers.interceptors, ...enhancers.pipes, ...enhancers.filters] : [],
+    );
+  }
+
+  /**
+   * Providers handling commands, queries, events or messages are invoked by Nest's dispatchers rather
+   * than injected, so they count as used just like providers with a lifecycle hook.
+   */
+  private isProviderUsed(module: ModuleMetadata, provider: ProviderMetadata): boolean {
+    const token = provider.provide ?? provider.name;
+    return (
+      this.isUsed(this.injectedProviders, module, token) ||
+      !!provider.lifecycleHooks?.length ||
+      !!provider.consumes?.length ||
+      token === module.configurable?.optionsToken
+    );
+  }
+
+  private isUsed(usages: Set<string>, module: ModuleMetadata, token: string): boolean {
+    return usages.has(`${module.name}\u0000${token}`) || this.looseTokens.has(token);
+  }
+
+  /**
+   * Only re-exports of analyzed modules that export providers themselves can be attributed to an
+   * injection; re-exported library modules are left alone.
+   */
+  private isTrackedReExport(module: ModuleMetadata, name: string): boolean {
+    const imported = module.imports.find((imp) => imp.name === name);
+    const reExported = imported?.moduleId ? this.modules.get(imported.moduleId) : undefined;
+    return !!reExported?.exportedProviders?.length;
+  }
+
+  private createProviderFinding(module: ModuleMetadata, provider: ProviderMetadata): UnusedFinding {
+    const token = provider.provide ?? provider.name;
+    return {
+      ...this.createFinding('provider', module, token, `${token} is registered in ${module.name} but never injected`),
+      line: provider.line ?? module.line,
+    };
+  }
+
+  private createControllerFinding(module: ModuleMetadata, controller: ControllerMetadata, rootName: string): UnusedFinding {
+    const routes = controller.routes?.length ?? 0;
+    return {
+      ...this.createFinding(
+        'controller',
+        module,
+        controller.name,
+        `${controller.name} (${routes} route(s)) is never mapped: ${module.name} is not reachable from ${rootName}`,
+      ),
+      line: controller.line ?? module.line,
+    };
+  }
+
+  private createFinding(kind: UnusedFinding['kind'], module: ModuleMetadata, name: string, message: string): UnusedFinding {
+    return {
+      kind,
+      module: module.name,
+      name,
+      message,
+      filePath: module.filePath ? path.relative(this.basePath, module.filePath).split(path.sep).join('/') : module.id.split('#')[0],
+      line: module.line,
+    };
+  }
+}
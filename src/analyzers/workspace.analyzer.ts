@@ -0,0 +1,101 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ModuleMetadata } from '../types/modules.types';
+import { NestCliProject, WorkspaceApp, WorkspaceLibrary, WorkspaceMetadata } from '../types/workspace.types';
+import { DependencyAnalyzer } from './dependency.analyzer';
+
+export class WorkspaceAnalyzer {
+  constructor(
+    private readonly basePath: string,
+    private readonly analyzer: DependencyAnalyzer,
+    private readonly modules: Map<string, ModuleMetadata>,
+  ) {}
+
+  /**
+   * Reads the `projects` section of nest-cli.json. Standard (non-monorepo) projects have no
+   * `projects` entry, in which case this returns an empty list.
+   */
+  public static async loadProjects(basePath: string): Promise<NestCliProject[]> {
+    let config: any;
+    try {
+      config = JSON.parse(await fs.readFile(path.join(basePath, 'nest-cli.json'), 'utf-8'));
+    } catch {
+      return [];
+    }
+
+    return Object.entries<any>(config.projects ?? {}).map(([name, project]) => ({
+      name,
+      type: project.type === 'library' ? 'library' : 'application',
+      root: project.root ?? name,
+      sourceRoot: project.sourceRoot ?? path.posix.join(project.root ?? name, 'src'),
+      entryFile: project.entryFile ?? 'main',
+    }));
+  }
+
+  public async analyze(): Promise<WorkspaceMetadata | null> {
+    const projects = await WorkspaceAnalyzer.loadProjects(this.basePath);
+    if (!projects.length) return null;
+
+    const apps = projects.filter((project) => project.type === 'application').map((project) => this.analyzeApp(project));
+    const libraries = projects.filter((project) => project.type === 'library').map((project) => this.analyzeLibrary(project, apps));
+
+    return { apps, libraries };
+  }
+
+  /**
+   * Restricts the analyzed modules to the ones loaded by a single app.
+   */
+  public static filterModules(modules: Map<string, ModuleMetadata>, app: WorkspaceApp): Map<string, ModuleMetadata> {
+    return new Map(Array.from(modules.entries()).filter(([id]) => app.modules.includes(id)));
+  }
+
+  private analyzeApp(project: NestCliProject): WorkspaceApp {
+    const entryFile = path.posix.join(project.sourceRoot, `${project.entryFile}.ts`);
+    const bootstrap = this.analyzer.getBootstrap(path.join(this.basePath, entryFile));
+    const rootModule = bootstrap?.rootModule ? this.analyzer.findModule(bootstrap.rootModule, bootstrap.rootModulePath) : undefined;
+
+    return {
+      name: project.name,
+      root: project.root,
+      entryFile,
+      rootModule: rootModule?.id,
+      modules: rootModule ? this.collectReachableModules(rootModule.id) : [],
+    };
+  }
+
+  private analyzeLibrary(project: NestCliProject, apps: WorkspaceApp[]): WorkspaceLibrary {
+    const libraryRoot = path.resolve(this.basePath, project.root) + path.sep;
+    const modules = Array.from(this.modules.values())
+      .filter((module) => module.filePath && path.resolve(module.filePath).startsWith(libraryRoot))
+      .map((module) => module.id);
+
+    const usedBy = apps.filter((app) => app.modules.some((id) => modules.includes(id))).map((app) => app.name);
+
+    return {
+      name: project.name,
+      root: project.root,
+      apps: usedBy,
+      modules,
+      isShared: usedBy.length > 1,
+    };
+  }
+
+  private collectReachableModules(rootId: string): string[] {
+    const visited = new Set<string>();
+    const queue = [rootId];
+
+    while (queue.length) {
+      const id = queue.shift()!;
+      if (visited.has(id)) continue;
+      visited.add(id);
+
+      const module = this.modules.get(id);
+      module?.imports.forEach((imp) => {
+        if (imp.moduleId) queue.push(imp.moduleId);
+        imp.dynamic?.imports.forEach((nested) => nested.moduleId && queue.push(nested.moduleId));
+      });
+    }
+
+    return Array.from(visited);
+  }
+}
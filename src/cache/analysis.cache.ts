@@ -0,0 +1,164 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { ProgramLoader } from '../parsers/program.loader';
+import { CacheEntry, CacheFile } from '../types/cache.types';
+import { ProjectOptions } from '../types/config.types';
+import { Diagnostic } from '../types/diagnostics.types';
+
+const CACHE_VERSION = 7;
+
+export const DEFAULT_CACHE_LOCATION = 'node_modules/.cache/nestjs-analyzer/cache.json';
+
+type CacheSection = 'modules' | 'bootstraps';
+
+export class AnalysisCache {
+  private data: CacheFile = this.createEmpty('');
+  private fileHashes = new Map<string, string>();
+  private isDirty = false;
+
+  /**
+   * @param location Cache file; when omitted the cache only lives in memory, which is what watch mode
+   * needs between runs.
+   */
+  constructor(
+    private readonly basePath: string,
+    private readonly location?: string,
+  ) {}
+
+  public static hash(content: string): string {
+    return createHash('sha1').update(content).digest('hex');
+  }
+
+  /**
+   * Reads the cache file and drops it entirely if it was written for another tsconfig, other ignored
+   * module classes or another cache format.
+   */
+  public async load(options: ProjectOptions = {}): Promise<void> {
+    const configHash = await this.computeConfigHash(options);
+    if (this.data.configHash === configHash) return;
+
+    this.data = this.createEmpty(configHash);
+    if (!this.location) return;
+
+    try {
+      const stored: CacheFile = JSON.parse(await fs.readFile(this.location, 'utf-8'));
+      if (stored.version === CACHE_VERSION && stored.configHash === configHash) {
+        this.data = stored;
+      }
+    } catch {
+      // Missing or unreadable cache: start from scratch
+    }
+  }
+
+  public async save(): Promise<void> {
+    if (!this.location || !this.isDirty) return;
+
+    await fs.mkdir(path.dirname(this.location), { recursive: true });
+    await fs.writeFile(this.location, JSON.stringify(this.data), 'utf8');
+    this.isDirty = false;
+  }
+
+  /**
+   * Forgets the file hashes of the previous run so changed dependency files are hashed again.
+   */
+  public resetFileHashes(): void {
+    this.fileHashes.clear();
+  }
+
+  public setFileHash(filePath: string, hash: string): void {
+    this.fileHashes.set(filePath, hash);
+  }
+
+  /**
+   * Returns a copy of the cached parse result when the file and every file it was derived from are
+   * unchanged, or undefined when the file has to be parsed again.
+   */
+  public async get<T>(section: CacheSection, filePath: string, hash: string): Promise<T | null | undefined> {
+    const entry = this.data[section][this.getKey(filePath)] as CacheEntry<T> | undefined;
+    if (!entry || entry.hash !== hash) return undefined;
+
+    for (const [dependency, dependencyHash] of Object.entries(entry.dependencies)) {
+      if ((await this.getFileHash(path.resolve(this.basePath, dependency))) !== dependencyHash) return undefined;
+    }
+
+    // Results are mutated while dependencies are resolved, so never hand out the cached object
+    return entry.result === null ? null : JSON.parse(JSON.stringify(entry.result));
+  }
+
+  /**
+   * Diagnostics reported while parsing a file, which are restored along with its cached result.
+   */
+  public getDiagnostics(section: CacheSection, filePath: string): Diagnostic[] {
+    const entry = this.data[section][this.getKey(filePath)];
+    return entry?.diagnostics ? JSON.parse(JSON.stringify(entry.diagnostics)) : [];
+  }
+
+  public async set<T>(
+    section: CacheSection,
+    filePath: string,
+    hash: string,
+    result: T | null,
+    dependencies: string[],
+    diagnostics: Diagnostic[] = [],
+  ): Promise<void> {
+    const hashes: Record<string, string> = {};
+    for (const dependency of dependencies) {
+      const dependencyHash = await this.getFileHash(dependency);
+      if (dependencyHash) hashes[this.getKey(dependency)] = dependencyHash;
+    }
+
+    (this.data[section] as Record<string, CacheEntry<T>>)[this.getKey(filePath)] = {
+      hash,
+      dependencies: hashes,
+      result: result === null ? null : JSON.parse(JSON.stringify(result)),
+      ...(diagnostics.length ? { diagnostics: JSON.parse(JSON.stringify(diagnostics)) } : {}),
+    };
+    this.isDirty = true;
+  }
+
+  /**
+   * Drops entries of files that no longer exist so the cache does not grow with deleted modules.
+   */
+  public retain(section: CacheSection, filePaths: string[]): void {
+    const keys = new Set(filePaths.map((filePath) => this.getKey(filePath)));
+    Object.keys(this.data[section])
+      .filter((key) => !keys.has(key))
+      .forEach((key) => {
+        delete this.data[section][key];
+        this.isDirty = true;
+      });
+  }
+
+  private async getFileHash(filePath: string): Promise<string | undefined> {
+    const cached = this.fileHashes.get(filePath);
+    if (cached) return cached;
+
+    try {
+      const hash = AnalysisCache.hash(await fs.readFile(filePath, 'utf-8'));
+      this.fileHashes.set(filePath, hash);
+      return hash;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async computeConfigHash(options: ProjectOptions): Promise<string> {
+    const configPath = ProgramLoader.findConfigFile(this.basePath, options.tsconfig);
+    const config = configPath ? await fs.readFile(configPath, 'utf-8').catch(() => '') : '';
+    const ignoredClasses = JSON.stringify(options.ignoreModuleClasses ?? null);
+    return AnalysisCache.hash(`${CACHE_VERSION}:${ts.version}:${ignoredClasses}:${config}`);
+  }
+
+  /**
+   * Entries are keyed by project-relative path so the cache survives moving the checkout.
+   */
+  private getKey(filePath: string): string {
+    return path.relative(this.basePath, filePath).split(path.sep).join('/');
+  }
+
+  private createEmpty(configHash: string): CacheFile {
+    return { version: CACHE_VERSION, configHash, modules: {}, bootstraps: {} };
+  }
+}
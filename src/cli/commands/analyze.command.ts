@@ -1,70 +1,364 @@
 import { Command } from 'commander';
+import { CycleAnalyzer } from '../../analyzers/cycle.analyzer';
 import { DependencyAnalyzer } from '../../analyzers/dependency.analyzer';
-import { DotVisualizer } from '../../visualizers/dot.visualizer';
+import { MessagingAnalyzer } from '../../analyzers/messaging.analyzer';
+import { ScopeAnalyzer } from '../../analyzers/scope.analyzer';
+import { WorkspaceAnalyzer } from '../../analyzers/workspace.analyzer';
+import { AnalysisCache, DEFAULT_CACHE_LOCATION } from '../../cache/analysis.cache';
+import { AnalyzerConfig } from '../../types/config.types';
+import { CycleReport } from '../../types/cycles.types';
+import { Diagnostic } from '../../types/diagnostics.types';
+import { ModuleMetadata } from '../../types/modules.types';
+import { VisualizerRegistry } from '../../visualizers/visualizer.registry';
+import { createConfigOption, loadConfig } from '../config.option';
+import { readdirSync, statSync, watch } from 'fs';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
+const WATCH_DEBOUNCE_MS = 200;
+const IGNORED_WATCH_DIRECTORIES = new Set(['node_modules', 'dist', 'coverage']);
+
+interface AnalyzeOptions {
+  path: string;
+  format?: string;
+  depth?: string;
+  root?: string;
+  includeUnreachable?: boolean;
+  focus?: string;
+  radius?: string;
+  collapseProviders?: boolean;
+  output?: string;
+  config?: string;
+  project?: string;
+  cache?: boolean;
+  cacheLocation?: string;
+  watch?: boolean;
+  strict?: boolean;
+}
+
 export class AnalyzeCommand extends Command {
   constructor() {
     super('analyze');
     this.description('Analyze NestJS project dependencies')
       .option('-p, --path <path>', 'Project path', process.cwd())
-      .option('-f, --format <format>', 'Output format (json|dot)', 'json')
-      .option('-d, --depth <depth>', 'Dependency resolution depth', '2')
-      .option('-o, --output <output>', 'Output file path')
+      .option('-f, --format <format>', 'Output format (json|dot|html|mermaid|plantuml|graphml|sarif or a configured format)')
+      .option('-r, --root <module>', 'Root module to walk imports from (default: the modules passed to NestFactory)')
+      .option('-d, --depth <depth>', 'Only include modules up to this many imports away from the root module')
+      .option('--include-unreachable', 'Also include modules that are not imported from the root module')
+      .option('--focus <module>', 'Only include modules around this module (name or id), in both import directions')
+      .option('--radius <n>', 'Number of imports away from the --focus module to include (default: 1)')
+      .option('--collapse-providers', 'Draw modules without their providers and controllers (DOT)')
+      .option('-o, --output <output>', 'Output file path (the format is inferred from its extension when --format is omitted)')
+      .addOption(createConfigOption('option defaults'))
+      .option('--project <name>', 'Only analyze one application of a Nest CLI monorepo (nest-cli.json)')
+      .option('--cache', 'Reuse parse results of unchanged files from the previous run')
+      .option('--cache-location <file>', `Cache file (default: ${DEFAULT_CACHE_LOCATION})`)
+      .option('-w, --watch', 'Re-run the analysis and rewrite the output whenever a file changes')
+      .option('--strict', 'Fail when a file could not be analyzed or metadata had to be skipped')
       .action(this.execute.bind(this));
   }
 
-  private async execute(options: { path: string; format: string; depth: string; output?: string }) {
+  private async execute(cliOptions: AnalyzeOptions) {
     try {
-      const analyzer = new DependencyAnalyzer(options.path);
-      const modules = await analyzer.analyze();
+      const config = await loadConfig(cliOptions);
+      const options = this.applyConfig(cliOptions, config);
+
+      // Watch mode always keeps parse results in memory between runs; --cache also persists them
+      const cacheLocation = options.cache ? path.resolve(options.path, options.cacheLocation ?? DEFAULT_CACHE_LOCATION) : undefined;
+      const cache = options.cache || options.watch ? new AnalysisCache(options.path, cacheLocation) : undefined;
+      const analyzer = new DependencyAnalyzer(options.path, cache, config);
+
+      await this.run(analyzer, options, config);
+      if (options.watch) {
+        await this.watch(analyzer, options, config);
+      }
+    } catch (error) {
+      console.error('Analysis failed:', error);
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Fills the options missing on the command line from the config file. An explicit --format or
+   * --output replaces both the configured format and output file, since they go together.
+   */
+  private applyConfig(options: AnalyzeOptions, config: AnalyzerConfig): AnalyzeOptions {
+    const output = config.output ?? {};
+    const hasOutputFlag = options.format !== undefined || options.output !== undefined;
+
+    return {
+      ...options,
+      format: hasOutputFlag ? options.format : output.format,
+      output: hasOutputFlag ? options.output : output.file,
+      root: options.root ?? config.root,
+      depth: options.depth ?? (output.depth !== undefined ? String(output.depth) : undefined),
+      includeUnreachable: options.includeUnreachable ?? output.includeUnreachable,
+      strict: options.strict ?? output.strict,
+      cache: options.cache ?? output.cache,
+      collapseProviders: options.collapseProviders ?? output.collapseProviders,
+    };
+  }
+
+  private async run(analyzer: DependencyAnalyzer, options: AnalyzeOptions, config: AnalyzerConfig): Promise<void> {
+    let modules = await analyzer.analyze(options.root);
+    const workspace = await new WorkspaceAnalyzer(options.path, analyzer, modules).analyze();
+
+    if (options.project) {
+      const app = workspace?.apps.find((candidate) => candidate.name === options.project);
+      if (!app) {
+        throw new Error(`Application "${options.project}" not found in nest-cli.json`);
+      }
+      modules = WorkspaceAnalyzer.filterModules(modules, app);
+    }
+    modules = this.filterReachable(analyzer, modules, options);
+    const focus = this.findFocus(analyzer, modules, options);
+    if (focus) {
+      modules = DependencyAnalyzer.filterFocus(modules, focus, this.parseRadius(options.radius));
+    }
+    modules = DependencyAnalyzer.filterExternals(modules, config.ignoreExternals ?? []);
+
+    const cycles = new CycleAnalyzer(modules).analyze();
+    const scopes = new ScopeAnalyzer(modules, options.path).analyze();
+    const messaging = new MessagingAnalyzer(modules, options.path).analyze().flows;
 
-      switch (options.format.toLowerCase()) {
-        case 'dot': {
-          const visualizer = new DotVisualizer(modules);
-          const output = visualizer.generate();
+    const registry = new VisualizerRegistry();
+    (config.visualizers ?? []).forEach((modulePath) => registry.registerFromModule(modulePath, options.path));
 
-          if (options.output) {
-            // Ensure the output directory exists
-            const outputDir = path.dirname(options.output);
-            await fs.mkdir(outputDir, { recursive: true });
+    // An explicit --format wins; otherwise the format follows the --output extension
+    const format = (
+      options.format ??
+      (options.output ? registry.findByExtension(options.output)?.format : undefined) ??
+      'json'
+    ).toLowerCase();
+    const visualizer = registry.create(format, {
+      modules,
+      cycles,
+      basePath: options.path,
+      workspace: options.project ? undefined : (workspace ?? undefined),
+      scopes,
+      messaging,
+      diagnostics: analyzer.getDiagnostics(),
+      focus,
+      collapseProviders: options.collapseProviders,
+    });
+    const output = visualizer.generate();
 
-            // Write the DOT file with proper line endings
-            const content = output.replace(/\r\n/g, '\n');
-            await fs.writeFile(options.output, content, 'utf8');
-            console.log(`DOT file saved to: ${options.output}`);
+    if (options.output) {
+      // Ensure the output directory exists
+      await fs.mkdir(path.dirname(options.output), { recursive: true });
 
-            // If graphviz is installed, automatically generate the PNG
+      // Write the file with proper line endings
+      await fs.writeFile(options.output, output.replace(/\r\n/g, '\n'), 'utf8');
+      console.log(`${format.toUpperCase()} output saved to: ${options.output}`);
+
+      if (format === 'dot') {
+        this.renderPng(options.output);
+      }
+    } else {
+      console.log(output);
+    }
+
+    this.reportDiagnostics(analyzer.getDiagnostics(), options);
+    this.reportCycles(cycles, modules);
+  }
+
+  private filterReachable(
+    analyzer: DependencyAnalyzer,
+    modules: Map<string, ModuleMetadata>,
+    options: AnalyzeOptions,
+  ): Map<string, ModuleMetadata> {
+    const roots = analyzer.getRootModules().map((module) => module.name);
+    if (!roots.length) {
+      if (options.depth) {
+        throw new Error('--depth needs a root module: pass --root or bootstrap the app with NestFactory in main.ts');
+      }
+      return modules;
+    }
+
+    const maxDepth = options.depth ? parseInt(options.depth, 10) : Infinity;
+    if (isNaN(maxDepth) || maxDepth < 0) {
+      throw new Error(`Invalid depth "${options.depth}"`);
+    }
+
+    const filtered = DependencyAnalyzer.filterReachable(modules, maxDepth, options.includeUnreachable);
+    const unreachable = Array.from(modules.values()).filter((module) => !module.isReachable);
+    if (unreachable.length && !options.includeUnreachable) {
+      // Written to stderr so that output printed to stdout stays valid
+      console.warn(
+        `Skipped ${unreachable.length} module(s) not imported from ${roots.join(', ')}: ` +
+          `${unreachable.map((module) => module.name).join(', ')} (use --include-unreachable to keep them)`,
+      );
+    }
+    return filtered;
+  }
+
+  /**
+   * Id of the --focus module, given by id or by class name. The module has to be part of the graph
+   * left after the root and depth filters.
+   */
+  private findFocus(analyzer: DependencyAnalyzer, modules: Map<string, ModuleMetadata>, options: AnalyzeOptions): string | undefined {
+    if (!options.focus) {
+      if (options.radius) {
+        throw new Error('--radius needs a module to focus on: pass --focus');
+      }
+      return undefined;
+    }
+
+    const focusId = modules.has(options.focus) ? options.focus : analyzer.findModule(options.focus)?.id;
+    if (!focusId || !modules.has(focusId)) {
+      throw new Error(`Module "${options.focus}" not found in the graph (pass its id, e.g. src/users/users.module.ts#UsersModule)`);
+    }
+    return focusId;
+  }
+
+  private parseRadius(radius: string | undefined): number {
+    const value = radius ? parseInt(radius, 10) : 1;
+    if (isNaN(value) || value < 0) {
+      throw new Error(`Invalid radius "${radius}"`);
+    }
+    return value;
+  }
+
+  /**
+   * Re-runs the analysis after TypeScript or JSON files change. Changes are debounced so that a
+   * refactoring touching many files triggers a single run, and a failing run does not stop watching.
+   */
+  private watch(analyzer: DependencyAnalyzer, options: AnalyzeOptions, config: AnalyzerConfig): Promise<void> {
+    const output = options.output ? path.resolve(options.output) : undefined;
+    let timer: NodeJS.Timeout | undefined;
+    let running = Promise.resolve();
+
+    console.log(`\nWatching ${path.resolve(options.path)} for changes...`);
+
+    return new Promise(() => {
+      this.watchDirectory(options.path, (fileName) => {
+        if (!/\.(ts|json)$/.test(fileName)) return;
+
+        const filePath = path.resolve(options.path, fileName);
+        const segments = path.relative(options.path, filePath).split(path.sep);
+        if (filePath === output || segments.some((segment) => IGNORED_WATCH_DIRECTORIES.has(segment) || segment.startsWith('.'))) return;
+
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          running = running.then(async () => {
+            console.log(`\n${new Date().toLocaleTimeString()} ${path.relative(options.path, filePath)} changed, re-analyzing...`);
             try {
-              const { execSync } = require('child_process');
-              const pngOutput = options.output.replace(/\.dot$/, '.png');
-              execSync(`dot -Tpng "${options.output}" -o "${pngOutput}"`);
-              console.log(`PNG visualization saved to: ${pngOutput}`);
-            } catch (err) {
-              console.log('To generate PNG visualization, install Graphviz and run:');
-              console.log(`dot -Tpng "${options.output}" -o "${options.output.replace(/\.dot$/, '.png')}"`);
+              await this.run(analyzer, options, config);
+            } catch (error) {
+              console.error('Analysis failed:', error);
             }
-          } else {
-            console.log(output);
-          }
-          break;
-        }
-        case 'json':
-        default: {
-          const output = JSON.stringify(Array.from(modules.entries()), null, 2);
-          if (options.output) {
-            await fs.writeFile(options.output, output, 'utf8');
-            console.log(`JSON saved to: ${options.output}`);
-          } else {
-            console.log(output);
-          }
-          break;
-        }
-      }
+          });
+        }, WATCH_DEBOUNCE_MS);
+      });
+    });
+  }
+
+  /**
+   * Calls `onChange` with the path, relative to `root`, of every file changed below it. Recursive
+   * `fs.watch` is not available on Linux before Node 19.1; there each directory gets its own watcher,
+   * and directories created later are watched once they appear.
+   */
+  private watchDirectory(root: string, onChange: (fileName: string) => void): void {
+    try {
+      watch(root, { recursive: true }, (_event, fileName) => fileName && onChange(fileName.toString()));
+      return;
     } catch (error) {
-      console.error('Analysis failed:', error);
-      process.exit(1);
+      if ((error as NodeJS.ErrnoException).code !== 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') throw error;
+    }
+
+    const watched = new Set<string>();
+    const isIgnored = (name: string) => IGNORED_WATCH_DIRECTORIES.has(name) || name.startsWith('.');
+    const add = (directory: string) => {
+      if (watched.has(directory)) return;
+      try {
+        const watcher = watch(directory, (_event, fileName) => {
+          if (!fileName) return;
+          const filePath = path.join(directory, fileName.toString());
+          if (!isIgnored(fileName.toString()) && this.isDirectory(filePath)) add(filePath);
+          onChange(path.relative(root, filePath));
+        });
+        // The directory was removed; a new one with the same name is picked up by its parent's watcher
+        watcher.on('error', () => {
+          watcher.close();
+          watched.delete(directory);
+        });
+        watched.add(directory);
+
+        readdirSync(directory, { withFileTypes: true })
+          .filter((entry) => entry.isDirectory() && !isIgnored(entry.name))
+          .forEach((entry) => add(path.join(directory, entry.name)));
+      } catch {
+        // Removed before it could be watched
+      }
+    };
+    add(root);
+  }
+
+  private isDirectory(filePath: string): boolean {
+    try {
+      return statSync(filePath).isDirectory();
+    } catch {
+      return false;
+    }
+  }
+
+  private renderPng(dotFile: string): void {
+    // If graphviz is installed, automatically generate the PNG
+    const pngOutput = dotFile.replace(/\.(dot|gv)$/, '') + '.png';
+    try {
+      const { execSync } = require('child_process');
+      execSync(`dot -Tpng "${dotFile}" -o "${pngOutput}"`);
+      console.log(`PNG visualization saved to: ${pngOutput}`);
+    } catch (err) {
+      console.log('To generate PNG visualization, install Graphviz and run:');
+      console.log(`dot -Tpng "${dotFile}" -o "${pngOutput}"`);
+    }
+  }
+
+  private reportDiagnostics(diagnostics: Diagnostic[], options: AnalyzeOptions): void {
+    if (!diagnostics.length) return;
+
+    console.warn(`\nSkipped ${diagnostics.length} file(s) or construct(s) that cannot be analyzed statically:`);
+    diagnostics.forEach((diagnostic) => {
+      const location = [path.relative(options.path, diagnostic.filePath ?? ''), diagnostic.line, diagnostic.column]
+        .filter(Boolean)
+        .join(':');
+      console.warn(`  ${location}  ${diagnostic.severity.toUpperCase()}  [${diagnostic.code}] ${diagnostic.message}`);
+    });
+
+    if (options.strict) {
+      process.exitCode = 1;
+    }
+  }
+
+  private reportCycles(cycles: CycleReport[], modules: Map<string, ModuleMetadata>): void {
+    if (!cycles.length) return;
+
+    // Module cycles are keyed by module id; print the class names instead
+    const label = (cycle: CycleReport, node: string) => (cycle.graph === 'module' ? (modules.get(node)?.name ?? node) : node);
+
+    const unguarded = cycles.filter((cycle) => !cycle.isGuarded);
+    console.warn(`\nFound ${cycles.length} circular dependencies (${unguarded.length} without forwardRef):`);
+
+    cycles.forEach((cycle) => {
+      const route = [...cycle.path.map((edge) => edge.from), cycle.path[0]?.from].map((node) => label(cycle, node)).join(' -> ');
+      console.warn(`  [${cycle.graph}] ${cycle.isGuarded ? 'guarded' : 'UNGUARDED'}: ${route}`);
+      console.warn(`    members: ${cycle.members.map((node) => label(cycle, node)).join(', ')}`);
+      cycle.path.forEach((edge) => {
+        const guard = edge.isForwardReference ? ' (forwardRef)' : ' (missing forwardRef)';
+        console.warn(`    ${label(cycle, edge.from)} -> ${label(cycle, edge.to)}${guard}`);
+      });
+      // The path shows one loop; every other import in the component may need a forwardRef as well
+      const remaining = cycle.unguardedEdges.filter((edge) => !cycle.path.includes(edge));
+      if (remaining.length) {
+        const edges = remaining.map((edge) => `${label(cycle, edge.from)} -> ${label(cycle, edge.to)}`);
+        console.warn(`    also without forwardRef: ${edges.join(', ')}`);
+      }
+    });
+
+    // Unguarded cycles fail at bootstrap with "Nest cannot create the module instance", so fail CI early
+    if (unguarded.length) {
+      process.exitCode = 1;
     }
   }
 }
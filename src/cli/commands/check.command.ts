@@ -0,0 +1,102 @@
+import { Command } from 'commander';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { DependencyAnalyzer } from '../../analyzers/dependency.analyzer';
+import { RuleAnalyzer } from '../../analyzers/rule.analyzer';
+import { RuleBaseline, RuleViolation } from '../../types/rules.types';
+import { createConfigOption, loadConfig } from '../config.option';
+
+const BASELINE_FILE_NAME = 'nestjs-analyzer.baseline.json';
+
+export class CheckCommand extends Command {
+  constructor() {
+    super('check');
+    this.description('Check the module and provider graph against architecture rules')
+      .option('-p, --path <path>', 'Project path', process.cwd())
+      .addOption(createConfigOption('rules'))
+      .option('-r, --rules <file>', 'Rules file (default: the rules of the config file, or nestjs-analyzer.rules.json)')
+      .option('-f, --format <format>', 'Output format (text|json)', 'text')
+      .option('-b, --baseline <file>', `Allowlist of known violations (default: ${BASELINE_FILE_NAME} when present)`)
+      .option('--update-baseline', 'Write the current violations to the baseline file and exit')
+      .action(this.execute.bind(this));
+  }
+
+  private async execute(options: {
+    path: string;
+    config?: string;
+    rules?: string;
+    format: string;
+    baseline?: string;
+    updateBaseline?: boolean;
+  }) {
+    try {
+      const config = await loadConfig(options);
+      const rules = !options.rules && config.rules ? config.rules : (await RuleAnalyzer.loadRules(options.path, options.rules)).rules;
+      const modules = await new DependencyAnalyzer(options.path, undefined, config).analyze();
+      const violations = new RuleAnalyzer(modules, options.path).analyze(rules);
+
+      const baselinePath = path.resolve(options.path, options.baseline ?? BASELINE_FILE_NAME);
+      if (options.updateBaseline) {
+        await this.writeBaseline(baselinePath, violations);
+        console.log(`Baseline with ${violations.length} violation(s) saved to: ${baselinePath}`);
+        return;
+      }
+
+      const baseline = await this.readBaseline(baselinePath, !!options.baseline);
+      const reported = violations.filter((violation) => !this.isBaselined(violation, baseline));
+
+      if (options.format.toLowerCase() === 'json') {
+        console.log(JSON.stringify(reported, null, 2));
+      } else {
+        this.printViolations(reported, violations.length - reported.length);
+      }
+
+      if (reported.some((violation) => violation.severity === 'error')) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      console.error('Check failed:', error);
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Baseline entries leave out line numbers so that unrelated edits to a file do not resurface
+   * violations that were already accepted.
+   */
+  private isBaselined(violation: RuleViolation, baseline: RuleBaseline): boolean {
+    return baseline.violations.some(
+      (entry) => entry.rule === violation.rule && entry.filePath === violation.filePath && entry.message === violation.message,
+    );
+  }
+
+  private async readBaseline(filePath: string, isExplicit: boolean): Promise<RuleBaseline> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error) {
+      if (isExplicit) throw new Error(`Cannot read baseline ${filePath}: ${(error as Error).message}`);
+      return { violations: [] };
+    }
+  }
+
+  private async writeBaseline(filePath: string, violations: RuleViolation[]): Promise<void> {
+    const baseline: RuleBaseline = {
+      violations: violations.map(({ rule, filePath: file, message }) => ({ rule, filePath: file, message })),
+    };
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(baseline, null, 2) + '\n', 'utf8');
+  }
+
+  private printViolations(violations: RuleViolation[], baselined: number): void {
+    violations.forEach((violation) => {
+      const location = violation.filePath ? `${violation.filePath}${violation.line ? `:${violation.line}` : ''}` : violation.module;
+      console.log(`${location}  ${violation.severity.toUpperCase()}  [${violation.rule}] ${violation.message}`);
+    });
+
+    const errors = violations.filter((violation) => violation.severity === 'error').length;
+    const suffix = baselined ? `, ${baselined} baselined` : '';
+    console.log(
+      violations.length ? `\n${errors} error(s), ${violations.length - errors} warning(s)${suffix}` : `No rule violations${suffix}.`,
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { Command } from 'commander';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { DiffAnalyzer } from '../../analyzers/diff.analyzer';
+import { SnapshotLoader } from '../../parsers/snapshot.loader';
+import { DiffVisualizer } from '../../visualizers/diff.visualizer';
+import { createConfigOption, loadConfig } from '../config.option';
+
+export class DiffCommand extends Command {
+  constructor() {
+    super('diff');
+    this.description('Compare the dependency graph of two git revisions or JSON snapshots')
+      .argument('<base>', 'Git revision or JSON snapshot (from "analyze -f json") to compare against')
+      .argument('[head]', 'Git revision or JSON snapshot to compare (default: the working tree)')
+      .option('-p, --path <path>', 'Project path', process.cwd())
+      .addOption(createConfigOption())
+      .option('-f, --format <format>', 'Output format (markdown|json|dot|html)', 'markdown')
+      .option('-o, --output <output>', 'Output file path')
+      .option('--include-unreachable', 'Compare modules not imported from the root module as well')
+      .action(this.execute.bind(this));
+  }
+
+  private async execute(
+    baseSource: string,
+    headSource: string | undefined,
+    options: { path: string; config?: string; format: string; output?: string; includeUnreachable?: boolean },
+  ) {
+    try {
+      const config = await loadConfig(options);
+      const loader = new SnapshotLoader(options.path, {
+        ...config,
+        output: { ...config.output, includeUnreachable: options.includeUnreachable ?? config.output?.includeUnreachable },
+      });
+      const base = await loader.load(baseSource);
+      const head = await loader.load(headSource);
+
+      const diff = new DiffAnalyzer(base, head).analyze();
+      const visualizer = new DiffVisualizer(base, head, diff);
+
+      let output: string;
+      switch (options.format.toLowerCase()) {
+        case 'json':
+          output = JSON.stringify(diff, null, 2);
+          break;
+        case 'dot':
+          output = visualizer.generateDot();
+          break;
+        case 'html':
+          output = visualizer.generateHtml();
+          break;
+        case 'markdown':
+        case 'md':
+          output = visualizer.generateMarkdown();
+          break;
+        default:
+          throw new Error(`Unknown format "${options.format}". Available formats: markdown, json, dot, html`);
+      }
+
+      if (options.output) {
+        await fs.mkdir(path.dirname(options.output), { recursive: true });
+        await fs.writeFile(options.output, output, 'utf8');
+        console.log(`Diff saved to: ${options.output}`);
+      } else {
+        console.log(output);
+      }
+    } catch (error) {
+      console.error('Diff failed:', error);
+      process.exit(1);
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import { Command } from 'commander';
+import { DependencyAnalyzer } from '../../analyzers/dependency.analyzer';
+import { ImpactAnalyzer } from '../../analyzers/impact.analyzer';
+import { TestingAnalyzer } from '../../analyzers/testing.analyzer';
+import { ImpactNode, ImpactReport } from '../../types/impact.types';
+import { ModuleMetadata } from '../../types/modules.types';
+import { createConfigOption, loadConfig } from '../config.option';
+
+export class ImpactCommand extends Command {
+  constructor() {
+    super('impact');
+    this.description('List what injects a provider or the providers a module exports, directly or transitively')
+      .argument('<target>', 'Provider token or module name')
+      .option('-p, --path <path>', 'Project path', process.cwd())
+      .addOption(createConfigOption())
+      .option('-f, --format <format>', 'Output format (tree|json)', 'tree')
+      .option('--files', 'Only list the test files whose testing modules are affected')
+      .action(this.execute.bind(this));
+  }
+
+  private async execute(target: string, options: { path: string; config?: string; format: string; files?: boolean }) {
+    try {
+      const analyzer = new DependencyAnalyzer(options.path, undefined, await loadConfig(options));
+      const modules = await analyzer.analyze();
+      const impact = new ImpactAnalyzer(analyzer, modules);
+      const report = impact.analyze(target);
+      const json = options.format.toLowerCase() === 'json';
+
+      if (options.files) {
+        const { setups } = await new TestingAnalyzer(options.path, analyzer, modules).analyze();
+        const files = impact.selectTestFiles(report, setups);
+        console.log(json ? JSON.stringify(files, null, 2) : files.join('\n'));
+      } else if (json) {
+        console.log(JSON.stringify(report, null, 2));
+      } else {
+        this.printReport(report, modules);
+      }
+    } catch (error) {
+      console.error('Impact analysis failed:', error);
+      process.exit(1);
+    }
+  }
+
+  private printReport(report: ImpactReport, modules: Map<string, ModuleMetadata>): void {
+    const moduleName = (id: string) => modules.get(id)?.name ?? id;
+
+    const defined = report.definedIn.map(moduleName).join(', ');
+    console.log(report.kind === 'provider' ? `${report.target} (provider in ${defined})` : `${report.target} (module)`);
+    this.printNodes(report.dependents, '');
+    if (!report.dependents.length) {
+      console.log(`  Nothing injects ${report.kind === 'provider' ? report.target : 'its exported providers'}.`);
+    }
+    console.log('');
+
+    if (report.importers.length) {
+      console.log(`Imported by (${report.importers.length}): ${report.importers.map(moduleName).join(', ')}`);
+      console.log('');
+    }
+
+    if (report.visibilityLoss.length) {
+      console.log(
+        `Modules losing access if ${report.kind === 'provider' ? `${report.target} is no longer exported` : 'its exports are removed'}:`,
+      );
+      report.visibilityLoss.forEach((loss) => {
+        const usage = loss.injectedBy.length ? `injected by ${loss.injectedBy.join(', ')}` : 'not injected';
+        console.log(`  ${loss.module}  ${loss.token} via ${loss.exportedBy} (${usage})`);
+      });
+      console.log('');
+    }
+
+    console.log(
+      `${this.countMembers(report.dependents)} provider(s) and controller(s), ${report.modules.length} module(s) and ${report.routes.length} route(s) affected`,
+    );
+  }
+
+  private printNodes(nodes: ImpactNode[], indent: string): void {
+    nodes.forEach((node, index) => {
+      const isLast = index === nodes.length - 1;
+      const repeated = node.isRepeated ? ' (see above)' : '';
+      console.log(`${indent}${isLast ? '└── ' : '├── '}${node.name} (${node.kind} in ${node.module})${repeated}`);
+
+      const childIndent = `${indent}${isLast ? '    ' : '│   '}`;
+      if (!node.isRepeated) {
+        (node.routes ?? []).forEach((route, routeIndex) => {
+          const isLastRoute = routeIndex === node.routes!.length - 1 && !node.dependents.length;
+          console.log(`${childIndent}${isLastRoute ? '└── ' : '├── '}${route}`);
+        });
+      }
+      this.printNodes(node.dependents, childIndent);
+    });
+  }
+
+  private countMembers(nodes: ImpactNode[]): number {
+    return nodes.reduce((count, node) => count + (node.isRepeated ? 0 : 1) + this.countMembers(node.dependents), 0);
+  }
+}
@@ -0,0 +1,66 @@
+import { Command } from 'commander';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { DEFAULT_MODULE_PATTERN } from '../../analyzers/dependency.analyzer';
+import { CONFIG_FILE_NAME, TS_CONFIG_FILE_NAME } from '../../config/config.loader';
+import { DEFAULT_IGNORED_MODULE_CLASSES } from '../../parsers/ast.parser';
+import { AnalyzerConfig } from '../../types/config.types';
+
+export class InitCommand extends Command {
+  constructor() {
+    super('init');
+    this.description(`Create a ${CONFIG_FILE_NAME} with the default settings`)
+      .option('-p, --path <path>', 'Project path', process.cwd())
+      .option('--ts', `Write ${TS_CONFIG_FILE_NAME} instead`)
+      .option('--force', 'Overwrite an existing config file')
+      .action(this.execute.bind(this));
+  }
+
+  private async execute(options: { path: string; ts?: boolean; force?: boolean }) {
+    try {
+      const filePath = path.resolve(options.path, options.ts ? TS_CONFIG_FILE_NAME : CONFIG_FILE_NAME);
+      const existing = await this.findExisting(options.path);
+      if (existing && !options.force) {
+        throw new Error(`${existing} already exists (use --force to overwrite it)`);
+      }
+
+      const content = JSON.stringify(this.createConfig(), null, 2);
+      await fs.writeFile(filePath, options.ts ? `export default ${content};\n` : `${content}\n`, 'utf8');
+      console.log(`Config saved to: ${filePath}`);
+    } catch (error) {
+      console.error('Init failed:', error);
+      process.exit(1);
+    }
+  }
+
+  /**
+   * The defaults the analyzer uses without a config file, spelled out so they can be edited.
+   */
+  private createConfig(): AnalyzerConfig {
+    return {
+      include: ['**/*.ts'],
+      exclude: [],
+      modulePattern: DEFAULT_MODULE_PATTERN,
+      ignoreModuleClasses: DEFAULT_IGNORED_MODULE_CLASSES,
+      ignoreExternals: [],
+      output: { format: 'json', includeUnreachable: false, strict: false, cache: false },
+      rules: [],
+    };
+  }
+
+  /**
+   * Either config file counts: the JSON one is read first, so a new TypeScript config next to it would be ignored.
+   */
+  private async findExisting(basePath: string): Promise<string | undefined> {
+    for (const fileName of [CONFIG_FILE_NAME, TS_CONFIG_FILE_NAME]) {
+      const filePath = path.resolve(basePath, fileName);
+      try {
+        await fs.access(filePath);
+        return filePath;
+      } catch {
+        // Not there; check the next name
+      }
+    }
+    return undefined;
+  }
+}
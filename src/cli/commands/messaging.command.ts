@@ -0,0 +1,79 @@
+import { Command } from 'commander';
+import { DependencyAnalyzer } from '../../analyzers/dependency.analyzer';
+import { MessagingAnalyzer } from '../../analyzers/messaging.analyzer';
+import { MessageChannel, MessageParticipant, MessagingReport } from '../../types/messaging.types';
+import { createConfigOption, loadConfig } from '../config.option';
+
+export class MessagingCommand extends Command {
+  constructor() {
+    super('messaging');
+    this.description('List microservice patterns, events, commands and queries with their producers and handlers')
+      .option('-p, --path <path>', 'Project path', process.cwd())
+      .addOption(createConfigOption())
+      .option('-f, --format <format>', 'Output format (text|json)', 'text')
+      .action(this.execute.bind(this));
+  }
+
+  private async execute(options: { path: string; config?: string; format: string }) {
+    try {
+      const modules = await new DependencyAnalyzer(options.path, undefined, await loadConfig(options)).analyze();
+      const report = new MessagingAnalyzer(modules, options.path).analyze();
+
+      if (options.format.toLowerCase() === 'json') {
+        console.log(JSON.stringify(report, null, 2));
+      } else {
+        this.printReport(report);
+      }
+    } catch (error) {
+      console.error('Messaging analysis failed:', error);
+      process.exit(1);
+    }
+  }
+
+  private printReport(report: MessagingReport): void {
+    if (!report.channels.length) {
+      console.log('No message patterns, events, commands or queries found.');
+      return;
+    }
+
+    const handled = report.channels.filter((channel) => channel.producers.length && channel.consumers.length);
+    if (handled.length) {
+      console.log(`Sent and handled (${handled.length}):`);
+      handled.forEach((channel) => {
+        console.log(`  ${this.formatChannel(channel)}`);
+        channel.producers.forEach((producer) => console.log(`    sent by    ${this.formatParticipant(producer)}`));
+        channel.consumers.forEach((consumer) => console.log(`    handled by ${this.formatParticipant(consumer)}`));
+      });
+      console.log('');
+    }
+
+    const sections = [
+      { title: 'Emitted but not handled', channels: report.unhandled, side: 'producers' as const },
+      { title: 'Handled but never emitted', channels: report.unemitted, side: 'consumers' as const },
+    ];
+
+    sections
+      .filter((section) => section.channels.length)
+      .forEach((section) => {
+        console.log(`${section.title} (${section.channels.length}):`);
+        section.channels.forEach((channel) => {
+          console.log(`  ${this.formatChannel(channel)}`);
+          channel[section.side].forEach((participant) => console.log(`    ${this.formatParticipant(participant)}`));
+        });
+        console.log('');
+      });
+
+    const crossModule = report.flows.filter((flow) => flow.from.moduleId !== flow.to.moduleId).length;
+    console.log(`${report.channels.length} channel(s), ${report.flows.length} flow(s), ${crossModule} crossing module boundaries.`);
+  }
+
+  private formatChannel(channel: MessageChannel): string {
+    return `${channel.kind} ${channel.pattern} (${channel.transport})`;
+  }
+
+  private formatParticipant(participant: MessageParticipant): string {
+    const member = participant.method ? `${participant.name}.${participant.method}()` : participant.name;
+    const location = participant.filePath ? `${participant.filePath}${participant.line ? `:${participant.line}` : ''}  ` : '';
+    return `${location}${participant.kind} ${member} in ${participant.module}`;
+  }
+}
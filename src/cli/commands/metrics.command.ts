@@ -0,0 +1,150 @@
+import { Command } from 'commander';
+import * as fs from 'fs/promises';
+import { DependencyAnalyzer } from '../../analyzers/dependency.analyzer';
+import { MetricsAnalyzer } from '../../analyzers/metrics.analyzer';
+import { MetricsReport, MetricThresholds } from '../../types/metrics.types';
+import { createConfigOption, loadConfig } from '../config.option';
+
+export class MetricsCommand extends Command {
+  constructor() {
+    super('metrics');
+    this.description('Compute coupling metrics per module and provider and rank hotspots')
+      .option('-p, --path <path>', 'Project path', process.cwd())
+      .addOption(createConfigOption('metrics.thresholds'))
+      .option('-f, --format <format>', 'Output format (table|json)', 'table')
+      .option('-o, --output <output>', 'Output file path')
+      .option('-r, --root <module>', 'Root module used for depth (default: the module passed to NestFactory)')
+      .option('--top <n>', 'Number of hotspots to list', '10')
+      .option(
+        '-t, --threshold <metric=max...>',
+        'Fail when a metric exceeds its maximum (afferent, efferent, instability, depth, providers, closure, fanIn, fanOut)',
+      )
+      .action(this.execute.bind(this));
+  }
+
+  private async execute(options: {
+    path: string;
+    format: string;
+    output?: string;
+    root?: string;
+    top: string;
+    threshold?: string[];
+    config?: string;
+  }) {
+    try {
+      const config = await loadConfig(options);
+      const analyzer = new DependencyAnalyzer(options.path, undefined, config);
+      const modules = await analyzer.analyze(options.root ?? config.root);
+
+      const thresholds = { ...config.metrics?.thresholds, ...this.parseThresholds(options.threshold ?? []) };
+      const top = this.parseTop(options.top);
+
+      const report = new MetricsAnalyzer(modules, analyzer.getRootModules()[0]?.id).analyze(thresholds, top);
+      const output = options.format.toLowerCase() === 'json' ? JSON.stringify(report, null, 2) : this.formatReport(report, modules.size);
+
+      if (options.output) {
+        await fs.writeFile(options.output, output, 'utf8');
+        console.log(`Metrics saved to: ${options.output}`);
+      } else {
+        console.log(output);
+      }
+
+      if (report.violations.length) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      console.error('Metrics failed:', error);
+      process.exit(1);
+    }
+  }
+
+  private parseTop(top: string): number {
+    const value = this.parseNumber(top);
+    if (value === undefined || !Number.isInteger(value)) {
+      throw new Error(`Invalid --top "${top}"`);
+    }
+    return value;
+  }
+
+  private parseThresholds(values: string[]): MetricThresholds {
+    return Object.fromEntries(
+      values.map((value) => {
+        const [metric, max] = value.split('=');
+        const number = this.parseNumber(max);
+        if (!MetricsAnalyzer.isMetric(metric) || number === undefined) {
+          throw new Error(`Invalid --threshold "${value}", expected <metric>=<number>`);
+        }
+        return [metric, number];
+      }),
+    );
+  }
+
+  /**
+   * A non-negative number, or undefined for anything else. `Number()` alone would read an empty
+   * value such as `fanIn=` as 0.
+   */
+  private parseNumber(value: string | undefined): number | undefined {
+    if (!value?.trim()) return undefined;
+    const number = Number(value);
+    return isNaN(number) || number < 0 ? undefined : number;
+  }
+
+  private formatReport(report: MetricsReport, moduleCount: number): string {
+    const lines: string[] = [];
+
+    lines.push(
+      this.formatTable(
+        ['MODULE', 'CA', 'CE', 'I', 'DEPTH', 'PROVIDERS', 'CONTROLLERS', 'CLOSURE'],
+        report.modules.map((module) => [
+          module.name,
+          String(module.afferent),
+          String(module.efferent),
+          module.instability.toFixed(2),
+          module.depth === undefined ? '-' : String(module.depth),
+          String(module.providers),
+          String(module.controllers),
+          String(module.closure),
+        ]),
+      ),
+    );
+    lines.push('', `${moduleCount} module(s)${report.root ? `, depth measured from ${report.root.split('#').pop()}` : ''}`);
+
+    if (report.hotspots.modules.length) {
+      lines.push('', 'Module hotspots (Ca × Ce + providers):');
+      report.hotspots.modules.forEach((module, index) => {
+        lines.push(
+          `  ${index + 1}. ${module.name} (score ${module.score}: Ca ${module.afferent}, Ce ${module.efferent}, ${module.providers} providers)`,
+        );
+      });
+    }
+
+    if (report.hotspots.providers.length) {
+      lines.push('', 'Provider hotspots (fan-in × fan-out):');
+      report.hotspots.providers.forEach((provider, index) => {
+        lines.push(
+          `  ${index + 1}. ${provider.token} in ${provider.module} (score ${provider.score}: fan-in ${provider.fanIn}, fan-out ${provider.fanOut})`,
+        );
+      });
+    }
+
+    if (report.violations.length) {
+      lines.push('', `${report.violations.length} threshold violation(s):`);
+      report.violations.forEach((violation) => {
+        lines.push(`  ${violation.subject}: ${violation.metric} ${violation.value} > ${violation.max}`);
+      });
+    }
+
+    return lines.join('\n');
+  }
+
+  private formatTable(header: string[], rows: string[][]): string {
+    const widths = header.map((title, column) => Math.max(title.length, ...rows.map((row) => row[column].length)));
+    const formatRow = (row: string[]) =>
+      row
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join('  ')
+        .trimEnd();
+
+    return [formatRow(header), ...rows.map(formatRow)].join('\n');
+  }
+}
@@ -0,0 +1,96 @@
+import { Command } from 'commander';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { DependencyAnalyzer } from '../../analyzers/dependency.analyzer';
+import { RouteAnalyzer } from '../../analyzers/route.analyzer';
+import { WorkspaceAnalyzer } from '../../analyzers/workspace.analyzer';
+import { EnhancerBinding, ResolvedRoute } from '../../types/routes.types';
+import { createConfigOption, loadConfig } from '../config.option';
+
+export class RoutesCommand extends Command {
+  constructor() {
+    super('routes');
+    this.description('List HTTP routes with the guards, interceptors, pipes and filters bound to them')
+      .option('-p, --path <path>', 'Project path', process.cwd())
+      .addOption(createConfigOption())
+      .option('-f, --format <format>', 'Output format (table|json)', 'table')
+      .option('-o, --output <output>', 'Output file path')
+      .option('--unguarded', 'Only list routes without any guard')
+      .option('--project <name>', 'Application of a Nest CLI monorepo (nest-cli.json) to list routes for')
+      .option('--include-unreachable', 'List routes of modules not imported from the root module as well')
+      .action(this.execute.bind(this));
+  }
+
+  private async execute(options: {
+    path: string;
+    config?: string;
+    format: string;
+    output?: string;
+    unguarded?: boolean;
+    project?: string;
+    includeUnreachable?: boolean;
+  }) {
+    try {
+      const config = await loadConfig(options);
+      const analyzer = new DependencyAnalyzer(options.path, undefined, config);
+      let modules = await analyzer.analyze(config.root);
+      // Controllers and APP_GUARD-style providers of modules Nest never loads do not serve any request
+      modules = DependencyAnalyzer.filterReachable(modules, Infinity, options.includeUnreachable ?? config.output?.includeUnreachable);
+      let routes: ResolvedRoute[];
+
+      if (options.project) {
+        const workspace = await new WorkspaceAnalyzer(options.path, analyzer, modules).analyze();
+        const app = workspace?.apps.find((candidate) => candidate.name === options.project);
+        if (!app) {
+          throw new Error(`Application "${options.project}" not found in nest-cli.json`);
+        }
+        const bootstrap = analyzer.getBootstrap(path.join(options.path, app.entryFile));
+        routes = new RouteAnalyzer(WorkspaceAnalyzer.filterModules(modules, app), bootstrap).analyze();
+      } else {
+        // Every application of a monorepo has its own main.ts with its own prefix and global enhancers
+        routes = RouteAnalyzer.analyzeApplications(analyzer, modules);
+      }
+      routes = routes.filter((route) => !options.unguarded || !route.guards.length);
+
+      const output = options.format.toLowerCase() === 'json' ? JSON.stringify(routes, null, 2) : this.formatTable(routes);
+
+      if (options.output) {
+        await fs.writeFile(options.output, output, 'utf8');
+        console.log(`Routes saved to: ${options.output}`);
+      } else {
+        console.log(output);
+      }
+    } catch (error) {
+      console.error('Route analysis failed:', error);
+      process.exit(1);
+    }
+  }
+
+  private formatTable(routes: ResolvedRoute[]): string {
+    const header = ['METHOD', 'PATH', 'VERSION', 'HANDLER', 'GUARDS', 'INTERCEPTORS', 'PIPES', 'FILTERS'];
+    const rows = routes.map((route) => [
+      route.method,
+      route.path,
+      route.version ?? '-',
+      `${route.controller}.${route.handler}`,
+      this.formatBindings(route.guards),
+      this.formatBindings(route.interceptors),
+      this.formatBindings(route.pipes),
+      this.formatBindings(route.filters),
+    ]);
+
+    const widths = header.map((title, column) => Math.max(title.length, ...rows.map((row) => row[column].length)));
+    const formatRow = (row: string[]) =>
+      row
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join('  ')
+        .trimEnd();
+
+    return [formatRow(header), ...rows.map(formatRow), '', `${routes.length} route(s)`].join('\n');
+  }
+
+  // The level is abbreviated as g/c/m so global bindings stand out in the review
+  private formatBindings(bindings: EnhancerBinding[]): string {
+    return bindings.length ? bindings.map((binding) => `${binding.name}(${binding.level[0]})`).join(', ') : '-';
+  }
+}
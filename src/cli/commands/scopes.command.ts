@@ -0,0 +1,65 @@
+import { Command } from 'commander';
+import { DependencyAnalyzer } from '../../analyzers/dependency.analyzer';
+import { ScopeAnalyzer } from '../../analyzers/scope.analyzer';
+import { ScopedConsumer } from '../../types/scope.types';
+import { createConfigOption, loadConfig } from '../config.option';
+
+export class ScopesCommand extends Command {
+  constructor() {
+    super('scopes');
+    this.description('List request-scoped and transient providers and controllers, including the ones made request-scoped by a dependency')
+      .option('-p, --path <path>', 'Project path', process.cwd())
+      .addOption(createConfigOption())
+      .option('-f, --format <format>', 'Output format (text|json)', 'text')
+      .action(this.execute.bind(this));
+  }
+
+  private async execute(options: { path: string; config?: string; format: string }) {
+    try {
+      const modules = await new DependencyAnalyzer(options.path, undefined, await loadConfig(options)).analyze();
+      const scoped = new ScopeAnalyzer(modules, options.path).analyze();
+
+      if (options.format.toLowerCase() === 'json') {
+        console.log(JSON.stringify(scoped, null, 2));
+      } else {
+        this.printScopes(scoped);
+      }
+    } catch (error) {
+      console.error('Scope analysis failed:', error);
+      process.exit(1);
+    }
+  }
+
+  private printScopes(scoped: ScopedConsumer[]): void {
+    if (!scoped.length) {
+      console.log('All providers and controllers are singletons.');
+      return;
+    }
+
+    const sections = [
+      { title: 'Request-scoped by declaration', entries: scoped.filter((entry) => entry.scope === 'REQUEST' && !entry.isImplicit) },
+      { title: 'Implicitly request-scoped', entries: scoped.filter((entry) => entry.isImplicit) },
+      { title: 'Transient', entries: scoped.filter((entry) => entry.scope === 'TRANSIENT') },
+    ];
+
+    sections
+      .filter((section) => section.entries.length)
+      .forEach((section) => {
+        console.log(`${section.title} (${section.entries.length}):`);
+        section.entries.forEach((entry) => {
+          const location = entry.filePath ? `${entry.filePath}${entry.line ? `:${entry.line}` : ''}` : entry.module;
+          const durable = entry.durable ? ', durable' : '';
+          console.log(`  ${location}  ${entry.kind} ${entry.name} in ${entry.module}${durable}`);
+          if (entry.isImplicit) {
+            console.log(`    injects ${entry.cause}: ${[entry.name, ...entry.chain].join(' -> ')}`);
+          }
+        });
+        console.log('');
+      });
+
+    const implicit = sections[1].entries.length;
+    if (implicit) {
+      console.log(`${implicit} provider(s) and controller(s) are created per request because of a request-scoped dependency.`);
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import { Command } from 'commander';
+import * as path from 'path';
+import { DependencyAnalyzer } from '../../analyzers/dependency.analyzer';
+import { TestingAnalyzer } from '../../analyzers/testing.analyzer';
+import { Diagnostic } from '../../types/diagnostics.types';
+import { MockedProvider, TestCoverageReport, TestSetupReport } from '../../types/testing.types';
+import { createConfigOption, loadConfig } from '../config.option';
+
+export class TestsCommand extends Command {
+  constructor() {
+    super('tests');
+    this.description('Check Test.createTestingModule() setups against the real modules and list providers no test creates')
+      .option('-p, --path <path>', 'Project path', process.cwd())
+      .addOption(createConfigOption())
+      .option('-f, --format <format>', 'Output format (text|json)', 'text')
+      .option('-v, --verbose', 'List the real and mocked providers of every setup')
+      .action(this.execute.bind(this));
+  }
+
+  private async execute(options: { path: string; config?: string; format: string; verbose?: boolean }) {
+    try {
+      const analyzer = new DependencyAnalyzer(options.path, undefined, await loadConfig(options));
+      const modules = await analyzer.analyze();
+      const testing = new TestingAnalyzer(options.path, analyzer, modules);
+      const report = await testing.analyze();
+
+      if (options.format.toLowerCase() === 'json') {
+        const diagnostics = testing
+          .getDiagnostics()
+          .map((diagnostic) => ({ ...diagnostic, filePath: diagnostic.filePath && path.relative(options.path, diagnostic.filePath) }));
+        console.log(JSON.stringify({ ...report, diagnostics }, null, 2));
+      } else {
+        this.printReport(report, !!options.verbose);
+        this.printDiagnostics(testing.getDiagnostics(), options.path);
+      }
+
+      if (report.setups.some((setup) => setup.missing.some((missing) => missing.severity === 'error'))) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      console.error('Test analysis failed:', error);
+      process.exit(1);
+    }
+  }
+
+  private printReport(report: TestCoverageReport, verbose: boolean): void {
+    if (!report.setups.length) {
+      console.log('No Test.createTestingModule() calls found.');
+      return;
+    }
+
+    report.setups
+      .filter((setup) => verbose || setup.missing.length)
+      .forEach((setup) => {
+        console.log(this.formatSetup(setup));
+        if (verbose) {
+          console.log(`  real:   ${setup.real.join(', ') || '-'}`);
+          console.log(`  mocked: ${setup.mocked.map((mocked) => `${mocked.token} (${this.formatMock(mocked)})`).join(', ') || '-'}`);
+        }
+        setup.missing.forEach((missing) => {
+          console.log(`  ${missing.severity.toUpperCase()} ${missing.consumerType} ${missing.consumer} -> ${missing.token}`);
+          console.log(`    ${missing.message}`);
+          console.log(`    Suggestion: ${missing.suggestion}`);
+        });
+        console.log('');
+      });
+
+    if (report.uncovered.length) {
+      console.log(`Not created by any test (${report.uncovered.length}):`);
+      report.uncovered.forEach((member) => {
+        const location = member.filePath ? `${member.filePath}${member.line ? `:${member.line}` : ''}` : member.module;
+        const mocked = member.mockedIn ? `, mocked in ${member.mockedIn} setup(s)` : '';
+        console.log(`  ${location}  ${member.kind} ${member.name} in ${member.module}${mocked}`);
+      });
+      console.log('');
+    }
+
+    const missing = report.setups.reduce((count, setup) => count + setup.missing.length, 0);
+    console.log(
+      `${report.setups.length} testing module(s), ${missing} unresolved dependency(ies), ${report.uncovered.length} untested member(s)`,
+    );
+  }
+
+  private formatSetup(setup: TestSetupReport): string {
+    return `${setup.filePath}:${setup.line}${setup.suite ? `  ${setup.suite}` : ''}`;
+  }
+
+  private formatMock(mocked: MockedProvider): string {
+    return mocked.via === 'override' ? `override${mocked.kind[0].toUpperCase()}${mocked.kind.slice(1)}` : mocked.via;
+  }
+
+  private printDiagnostics(diagnostics: Diagnostic[], basePath: string): void {
+    if (!diagnostics.length) return;
+
+    console.warn(`\nSkipped ${diagnostics.length} file(s) or construct(s) that cannot be analyzed statically:`);
+    diagnostics.forEach((diagnostic) => {
+      const location = [path.relative(basePath, diagnostic.filePath ?? ''), diagnostic.line, diagnostic.column].filter(Boolean).join(':');
+      console.warn(`  ${location}  ${diagnostic.severity.toUpperCase()}  [${diagnostic.code}] ${diagnostic.message}`);
+    });
+  }
+}
@@ -0,0 +1,74 @@
+import { Command } from 'commander';
+import * as fs from 'fs/promises';
+import { DependencyAnalyzer } from '../../analyzers/dependency.analyzer';
+import { UnusedAnalyzer } from '../../analyzers/unused.analyzer';
+import { UnusedFinding, UnusedKind, UnusedReport } from '../../types/unused.types';
+import { createConfigOption, loadConfig } from '../config.option';
+
+const SECTIONS: { kind: UnusedKind; title: string }[] = [
+  { kind: 'provider', title: 'Unused providers' },
+  { kind: 'export', title: 'Unconsumed exports' },
+  { kind: 'module', title: 'Orphan modules' },
+  { kind: 'controller', title: 'Controllers in unreachable modules' },
+];
+
+export class UnusedCommand extends Command {
+  constructor() {
+    super('unused');
+    this.description('Find providers that are never injected, exports no importer consumes and modules not reachable from the root')
+      .option('-p, --path <path>', 'Project path', process.cwd())
+      .addOption(createConfigOption('unused.entryPoints'))
+      .option('-f, --format <format>', 'Output format (text|json)', 'text')
+      .option('-o, --output <output>', 'Output file path')
+      .option('-r, --root <module>', 'Root module (default: the modules passed to NestFactory)')
+      .option('-e, --entry <tokens...>', 'Tokens used without injection, e.g. resolved with moduleRef.get() (globs allowed)')
+      .action(this.execute.bind(this));
+  }
+
+  private async execute(options: { path: string; format: string; output?: string; root?: string; entry?: string[]; config?: string }) {
+    try {
+      const config = await loadConfig(options);
+      const analyzer = new DependencyAnalyzer(options.path, undefined, config);
+      const modules = await analyzer.analyze(options.root ?? config.root);
+
+      const entryPoints = [...(config.unused?.entryPoints ?? []), ...(options.entry ?? [])];
+
+      const report = new UnusedAnalyzer(modules, options.path, analyzer.getRootModules()).analyze(entryPoints);
+      const output = options.format.toLowerCase() === 'json' ? JSON.stringify(report, null, 2) : this.formatReport(report);
+
+      if (options.output) {
+        await fs.writeFile(options.output, output, 'utf8');
+        console.log(`Unused report saved to: ${options.output}`);
+      } else {
+        console.log(output);
+      }
+    } catch (error) {
+      console.error('Unused analysis failed:', error);
+      process.exit(1);
+    }
+  }
+
+  private formatReport(report: UnusedReport): string {
+    const lines: string[] = [];
+
+    SECTIONS.forEach((section) => {
+      const findings = report.findings.filter((finding) => finding.kind === section.kind);
+      if (!findings.length) return;
+
+      lines.push(`${section.title} (${findings.length}):`);
+      findings.forEach((finding) => lines.push(`  ${this.formatLocation(finding)}  ${finding.message}`));
+      lines.push('');
+    });
+
+    if (!report.roots.length) {
+      lines.push('No root module found, pass --root to report modules that are not reachable from it.', '');
+    }
+    lines.push(report.findings.length ? `${report.findings.length} finding(s)` : 'No unused providers, exports or modules found.');
+
+    return lines.join('\n');
+  }
+
+  private formatLocation(finding: UnusedFinding): string {
+    return finding.filePath ? `${finding.filePath}${finding.line ? `:${finding.line}` : ''}` : finding.module;
+  }
+}
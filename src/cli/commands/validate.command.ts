@@ -0,0 +1,55 @@
+import { Command } from 'commander';
+import { DependencyAnalyzer } from '../../analyzers/dependency.analyzer';
+import { ResolutionAnalyzer } from '../../analyzers/resolution.analyzer';
+import { ResolutionIssue } from '../../types/resolution.types';
+import { createConfigOption, loadConfig } from '../config.option';
+
+export class ValidateCommand extends Command {
+  constructor() {
+    super('validate');
+    this.description("Statically check that every injected token can be resolved by Nest's module scoping rules")
+      .option('-p, --path <path>', 'Project path', process.cwd())
+      .addOption(createConfigOption())
+      .option('-f, --format <format>', 'Output format (text|json)', 'text')
+      .action(this.execute.bind(this));
+  }
+
+  private async execute(options: { path: string; config?: string; format: string }) {
+    try {
+      const analyzer = new DependencyAnalyzer(options.path, undefined, await loadConfig(options));
+      const modules = await analyzer.analyze();
+      const issues = new ResolutionAnalyzer(modules).analyze();
+
+      if (options.format.toLowerCase() === 'json') {
+        console.log(JSON.stringify(issues, null, 2));
+      } else {
+        this.printIssues(issues);
+      }
+
+      if (issues.some((issue) => issue.severity === 'error')) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      console.error('Validation failed:', error);
+      process.exit(1);
+    }
+  }
+
+  private printIssues(issues: ResolutionIssue[]): void {
+    if (!issues.length) {
+      console.log('All dependencies can be resolved.');
+      return;
+    }
+
+    issues.forEach((issue) => {
+      console.log(`${issue.severity.toUpperCase()} [${issue.module}] ${issue.consumerType} ${issue.consumer} -> ${issue.token}`);
+      console.log(`  ${issue.message}`);
+      if (issue.suggestion) {
+        console.log(`  Suggestion: ${issue.suggestion}`);
+      }
+    });
+
+    const errors = issues.filter((issue) => issue.severity === 'error').length;
+    console.log(`\n${errors} error(s), ${issues.length - errors} warning(s)`);
+  }
+}
@@ -0,0 +1,21 @@
+import { Option } from 'commander';
+import { CONFIG_FILE_NAME, ConfigLoader } from '../config/config.loader';
+import { AnalyzerConfig } from '../types/config.types';
+
+export interface ConfigCommandOptions {
+  path: string;
+  config?: string;
+}
+
+/**
+ * The `-c, --config` option of every command that analyzes the project; `settings` names what the
+ * command reads from the file besides the project settings.
+ */
+export function createConfigOption(settings?: string): Option {
+  const contents = settings ? `project settings and ${settings}` : 'project settings';
+  return new Option('-c, --config <file>', `Config file with ${contents} (default: ${CONFIG_FILE_NAME} or .ts)`);
+}
+
+export function loadConfig(options: ConfigCommandOptions): Promise<AnalyzerConfig> {
+  return ConfigLoader.load(options.path, options.config);
+}
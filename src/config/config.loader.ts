@@ -0,0 +1,86 @@
+import * as fs from 'fs/promises';
+import { createRequire } from 'module';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { AnalyzerConfig } from '../types/config.types';
+
+export const CONFIG_FILE_NAME = 'nestjs-analyzer.config.json';
+export const TS_CONFIG_FILE_NAME = 'nestjs-analyzer.config.ts';
+
+export class ConfigLoader {
+  /**
+   * Reads `nestjs-analyzer.config.json` or `nestjs-analyzer.config.ts` from the project root, or the
+   * given file. Like any file named on the command line, the given file is relative to the working
+   * directory rather than the project. A missing default config is not an error; a missing explicit
+   * one is. Relative paths inside the config are resolved against the config file.
+   */
+  public static async load(basePath: string, configPath?: string): Promise<AnalyzerConfig> {
+    const candidates = configPath
+      ? [path.resolve(configPath)]
+      : [CONFIG_FILE_NAME, TS_CONFIG_FILE_NAME].map((fileName) => path.resolve(basePath, fileName));
+
+    for (const filePath of candidates) {
+      let content: string;
+      try {
+        content = await fs.readFile(filePath, 'utf-8');
+      } catch (error) {
+        continue;
+      }
+
+      const config = filePath.endsWith('.ts') ? this.evaluate(content, filePath) : this.parse(content, filePath);
+      return this.resolvePaths(config, path.dirname(filePath));
+    }
+
+    if (configPath) throw new Error(`Config file not found: ${path.resolve(configPath)}`);
+    return {};
+  }
+
+  private static parse(content: string, filePath: string): AnalyzerConfig {
+    try {
+      return JSON.parse(content);
+    } catch (error) {
+      throw new Error(`Invalid JSON in ${filePath}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Transpiles a TypeScript config to CommonJS and runs it; the config is its default export or
+   * `module.exports`. Type-only imports are erased, so the file may import the config types.
+   */
+  private static evaluate(content: string, filePath: string): AnalyzerConfig {
+    const { outputText } = ts.transpileModule(content, {
+      fileName: filePath,
+      compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true },
+    });
+
+    const module: { exports: any } = { exports: {} };
+    try {
+      new Function('module', 'exports', 'require', '__filename', '__dirname', outputText)(
+        module,
+        module.exports,
+        createRequire(filePath),
+        filePath,
+        path.dirname(filePath),
+      );
+    } catch (error) {
+      throw new Error(`Cannot load ${filePath}: ${(error as Error).message}`);
+    }
+
+    const config = module.exports?.default ?? module.exports;
+    if (typeof config !== 'object' || config === null) {
+      throw new Error(`${filePath} must export a config object`);
+    }
+    return config;
+  }
+
+  private static resolvePaths(config: AnalyzerConfig, configDir: string): AnalyzerConfig {
+    return {
+      ...config,
+      visualizers: (config.visualizers ?? []).map((modulePath) =>
+        modulePath.startsWith('.') ? path.resolve(configDir, modulePath) : modulePath,
+      ),
+      ...(config.tsconfig ? { tsconfig: path.resolve(configDir, config.tsconfig) } : {}),
+      ...(config.output?.file ? { output: { ...config.output, file: path.resolve(configDir, config.output.file) } } : {}),
+    };
+  }
+}
@@ -0,0 +1,251 @@
+import * as path from 'path';
+import { DependencyAnalyzer } from '../analyzers/dependency.analyzer';
+import { MessagingAnalyzer } from '../analyzers/messaging.analyzer';
+import { ResolutionAnalyzer } from '../analyzers/resolution.analyzer';
+import { CycleReport } from '../types/cycles.types';
+import { Diagnostic } from '../types/diagnostics.types';
+import { GraphEdge, GraphImport, GraphNode, MessageEdge, ProjectGraph } from '../types/graph.types';
+import {
+  ControllerMetadata,
+  ImportMetadata,
+  InjectionMetadata,
+  MessageEndpoint,
+  ModuleMetadata,
+  ProviderMetadata,
+} from '../types/modules.types';
+import { WorkspaceMetadata } from '../types/workspace.types';
+
+/**
+ * Version of `schema/project-graph.schema.json`. Bump the major version when a field is removed or
+ * changes meaning, the minor version when one is added.
+ */
+export const SCHEMA_VERSION = '1.7.0';
+
+export class GraphBuilder {
+  constructor(
+    private readonly modules: Map<string, ModuleMetadata>,
+    private readonly basePath?: string,
+    private readonly cycles: CycleReport[] = [],
+    private readonly workspace?: WorkspaceMetadata,
+    /** Diagnostics of the analysis itself, see `DependencyAnalyzer.getDiagnostics()`. */
+    private readonly diagnostics: Diagnostic[] = [],
+  ) {}
+
+  /**
+   * Reverses `build()`, e.g. to diff against a snapshot written by `analyze -f json`. Snapshots older
+   * than schema 1.6.0 have no visible providers on their module nodes.
+   */
+  public static restore(graph: ProjectGraph): Map<string, ModuleMetadata> {
+    const [major] = String(graph.schemaVersion).split('.');
+    if (major !== SCHEMA_VERSION.split('.')[0]) {
+      throw new Error(`Unsupported graph schema version ${graph.schemaVersion} (expected ${SCHEMA_VERSION})`);
+    }
+
+    const modules = new Map<string, ModuleMetadata>();
+    graph.nodes.forEach((node) => {
+      if (node.kind !== 'module') return;
+      const { kind, ...module } = node;
+      modules.set(node.id, { ...module, imports: [], providers: [], controllers: [] });
+    });
+
+    graph.nodes.forEach((node) => {
+      if (node.kind === 'provider') {
+        const { kind, id, module, token, ...provider } = node;
+        modules.get(module)?.providers.push(provider);
+      } else if (node.kind === 'controller') {
+        const { kind, id, module, ...controller } = node;
+        modules.get(module)?.controllers.push(controller);
+      }
+    });
+
+    graph.edges.forEach((edge) => {
+      if (edge.kind === 'imports') modules.get(edge.from)?.imports.push(edge.import);
+    });
+
+    return modules;
+  }
+
+  public build(): ProjectGraph {
+    const nodes: GraphNode[] = [];
+    const edges: GraphEdge[] = [];
+    const externalModules = new Set<string>();
+    const getTarget = (imp: ImportMetadata) => {
+      if (imp.moduleId) return imp.moduleId;
+      if (!externalModules.has(imp.name)) {
+        externalModules.add(imp.name);
+        nodes.push({
+          kind: 'external-module',
+          id: this.getExternalId(imp.name),
+          name: imp.name,
+          ...(imp.package ? { package: imp.package } : {}),
+        });
+      }
+      return this.getExternalId(imp.name);
+    };
+
+    this.modules.forEach((module) => {
+      const { imports, providers, controllers, ...rest } = module;
+      nodes.push({ kind: 'module', ...rest, filePath: this.getRelativePath(module.filePath) });
+
+      imports.forEach((imp) =>
+        edges.push({ kind: 'imports', from: module.id, to: getTarget(imp), import: this.toGraphImport(imp), ...this.getCondition(imp) }),
+      );
+
+      providers.forEach((provider) => {
+        const token = provider.provide ?? provider.name;
+        const id = this.getProviderId(module.id, token);
+        nodes.push({ kind: 'provider', id, module: module.id, token, ...provider, ...this.toGraphMembers(provider) });
+        edges.push({ kind: 'provides', from: module.id, to: id, ...this.getCondition(provider) });
+        if (module.exports.includes(token)) edges.push({ kind: 'exports', from: module.id, to: id });
+      });
+
+      module.reExports.forEach((name) => {
+        const imp = imports.find((candidate) => candidate.name === name);
+        if (imp) edges.push({ kind: 'exports', from: module.id, to: getTarget(imp) });
+      });
+
+      controllers.forEach((controller) => {
+        const id = this.getControllerId(module.id, controller.name);
+        nodes.push({ kind: 'controller', id, module: module.id, ...controller, ...this.toGraphMembers(controller) });
+        edges.push({ kind: 'declares', from: module.id, to: id, ...this.getCondition(controller) });
+      });
+    });
+
+    this.modules.forEach((module) => {
+      const consumers = [
+        ...module.providers.map((consumer) => ({ consumer, id: this.getProviderId(module.id, consumer.provide ?? consumer.name) })),
+        ...module.controllers.map((consumer) => ({ consumer, id: this.getControllerId(module.id, consumer.name) })),
+      ];
+
+      consumers.forEach(({ consumer, id }) => {
+        (consumer.injections ?? []).forEach((injection) => {
+          const target = DependencyAnalyzer.resolveProvider(this.modules, module, injection.token);
+          if (!target?.provider) return;
+
+          edges.push({
+            kind: 'injects',
+            from: id,
+            to: this.getProviderId(target.module.id, injection.token),
+            token: injection.token,
+            isOptional: injection.isOptional,
+            isForwardReference: injection.isForwardReference,
+          });
+        });
+      });
+    });
+
+    edges.push(...this.buildMessageEdges());
+
+    return {
+      schemaVersion: SCHEMA_VERSION,
+      roots: Array.from(this.modules.values())
+        .filter((module) => module.depth === 0)
+        .map((module) => module.id),
+      nodes,
+      edges,
+      cycles: this.cycles,
+      diagnostics: this.collectDiagnostics(),
+      ...(this.workspace ? { workspace: this.workspace } : {}),
+    };
+  }
+
+  private collectDiagnostics(): Diagnostic[] {
+    const skipped = this.diagnostics.map((diagnostic) => ({ ...diagnostic, filePath: this.getRelativePath(diagnostic.filePath) }));
+
+    const unresolved = new ResolutionAnalyzer(this.modules).analyze().map((issue): Diagnostic => {
+      const module = Array.from(this.modules.values()).find((candidate) => candidate.name === issue.module);
+      const consumer = [...(module?.providers ?? []), ...(module?.controllers ?? [])].find(
+        (candidate) => candidate.name === issue.consumer,
+      );
+      const injection = consumer?.injections?.find((candidate) => candidate.token === issue.token);
+
+      return {
+        severity: issue.severity,
+        code: 'unresolved-dependency',
+        message: issue.suggestion ? `${issue.message}. ${issue.suggestion}` : issue.message,
+        module: issue.module,
+        filePath: this.getRelativePath(injection?.filePath ?? issue.filePath),
+        line: injection?.line,
+      };
+    });
+
+    const cycles = this.cycles.map((cycle): Diagnostic => {
+      const label = (node: string) => (cycle.graph === 'module' ? (this.modules.get(node)?.name ?? node) : node);
+      const route = [...cycle.path.map((edge) => edge.from), cycle.path[0]?.from].map(label).join(' -> ');
+      // Module cycles point at the module starting the route; provider cycles may span several modules
+      const start = cycle.graph === 'module' ? this.modules.get(cycle.path[0]?.from) : undefined;
+
+      return {
+        severity: cycle.isGuarded ? 'warning' : 'error',
+        code: cycle.graph === 'module' ? 'circular-import' : 'circular-injection',
+        message: `Circular dependency ${cycle.isGuarded ? 'guarded by forwardRef' : 'without forwardRef'}: ${route}`,
+        ...(start ? { module: start.name, filePath: this.getRelativePath(start.filePath), line: start.line } : {}),
+      };
+    });
+
+    return [...skipped, ...unresolved, ...cycles];
+  }
+
+  private toGraphImport(imp: ImportMetadata): GraphImport {
+    const { module, path: filePath, dynamic, ...rest } = imp;
+    return dynamic ? { ...rest, dynamic: { ...dynamic, imports: dynamic.imports.map((nested) => this.toGraphImport(nested)) } } : rest;
+  }
+
+  /** One edge per producer, handler and pattern, however many methods send or handle it. */
+  private buildMessageEdges(): MessageEdge[] {
+    const edges = new Map<string, MessageEdge>();
+    new MessagingAnalyzer(this.modules).analyze().flows.forEach((flow) => {
+      const edge: MessageEdge = {
+        kind: 'messages',
+        from: this.getParticipantId(flow.from),
+        to: this.getParticipantId(flow.to),
+        transport: flow.transport,
+        messageKind: flow.kind,
+        pattern: flow.pattern,
+      };
+      edges.set([edge.from, edge.to, edge.transport, edge.messageKind, edge.pattern].join('\u0000'), edge);
+    });
+    return Array.from(edges.values());
+  }
+
+  private getParticipantId({ kind, moduleId, name }: { kind: 'provider' | 'controller'; moduleId: string; name: string }): string {
+    return kind === 'provider' ? this.getProviderId(moduleId, name) : this.getControllerId(moduleId, name);
+  }
+
+  private toGraphMembers(member: ProviderMetadata | ControllerMetadata) {
+    return {
+      injections: this.toGraphInjections(member),
+      ...(member.consumes ? { consumes: this.toGraphEndpoints(member.consumes) } : {}),
+      ...(member.produces ? { produces: this.toGraphEndpoints(member.produces) } : {}),
+    };
+  }
+
+  private toGraphInjections(consumer: ProviderMetadata | ControllerMetadata): InjectionMetadata[] | undefined {
+    return consumer.injections?.map((injection) => ({ ...injection, filePath: this.getRelativePath(injection.filePath) }));
+  }
+
+  private toGraphEndpoints(endpoints: MessageEndpoint[]): MessageEndpoint[] {
+    return endpoints.map((endpoint) => ({ ...endpoint, filePath: this.getRelativePath(endpoint.filePath) }));
+  }
+
+  private getCondition({ condition }: { condition?: string }): { condition?: string } {
+    return condition ? { condition } : {};
+  }
+
+  private getProviderId(moduleId: string, token: string): string {
+    return `${moduleId}::provider:${token}`;
+  }
+
+  private getControllerId(moduleId: string, name: string): string {
+    return `${moduleId}::controller:${name}`;
+  }
+
+  private getExternalId(name: string): string {
+    return `external:${name}`;
+  }
+
+  private getRelativePath(filePath: string | undefined): string | undefined {
+    if (!filePath || !this.basePath) return filePath;
+    return path.relative(this.basePath, filePath).split(path.sep).join('/');
+  }
+}
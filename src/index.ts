@@ -0,0 +1,83 @@
+import * as path from 'path';
+import { CycleAnalyzer } from './analyzers/cycle.analyzer';
+import { DependencyAnalyzer } from './analyzers/dependency.analyzer';
+import { WorkspaceAnalyzer } from './analyzers/workspace.analyzer';
+import { AnalysisCache, DEFAULT_CACHE_LOCATION } from './cache/analysis.cache';
+import { ConfigLoader } from './config/config.loader';
+import { GraphBuilder } from './graph/graph.builder';
+import { ProjectGraph } from './types/graph.types';
+
+export interface AnalyzeProjectOptions {
+  /** Project directory (default: the current working directory). */
+  path?: string;
+  /** Root module to walk imports from (default: the modules passed to NestFactory). */
+  root?: string;
+  /** Only include modules up to this many imports away from the root module. */
+  depth?: number;
+  includeUnreachable?: boolean;
+  /** Only analyze one application of a Nest CLI monorepo. */
+  project?: string;
+  /** Reuse parse results of unchanged files; a string sets the cache file location. */
+  cache?: boolean | string;
+  /** Config file providing the project settings, root module and ignored externals, relative to `path` (default: nestjs-analyzer.config.json or .ts when present). */
+  config?: string;
+}
+
+/**
+ * Analyzes a NestJS project and returns its module and provider graph in the format described by
+ * `schema/project-graph.schema.json`, the same one `analyze -f json` writes.
+ */
+export async function analyzeProject(options: AnalyzeProjectOptions = {}): Promise<ProjectGraph> {
+  const basePath = path.resolve(options.path ?? process.cwd());
+  const cacheLocation = typeof options.cache === 'string' ? options.cache : DEFAULT_CACHE_LOCATION;
+  const cache = options.cache ? new AnalysisCache(basePath, path.resolve(basePath, cacheLocation)) : undefined;
+
+  const config = await ConfigLoader.load(basePath, options.config && path.resolve(basePath, options.config));
+  const analyzer = new DependencyAnalyzer(basePath, cache, config);
+  let modules = await analyzer.analyze(options.root ?? config.root);
+  const workspace = await new WorkspaceAnalyzer(basePath, analyzer, modules).analyze();
+
+  if (options.project) {
+    const app = workspace?.apps.find((candidate) => candidate.name === options.project);
+    if (!app) {
+      throw new Error(`Application "${options.project}" not found in nest-cli.json`);
+    }
+    modules = WorkspaceAnalyzer.filterModules(modules, app);
+  }
+  modules = DependencyAnalyzer.filterReachable(modules, options.depth, options.includeUnreachable);
+  modules = DependencyAnalyzer.filterExternals(modules, config.ignoreExternals ?? []);
+
+  const cycles = new CycleAnalyzer(modules).analyze();
+  const diagnostics = analyzer.getDiagnostics();
+  return new GraphBuilder(modules, basePath, cycles, options.project ? undefined : (workspace ?? undefined), diagnostics).build();
+}
+
+export { CycleAnalyzer } from './analyzers/cycle.analyzer';
+export { DependencyAnalyzer } from './analyzers/dependency.analyzer';
+export { ImpactAnalyzer } from './analyzers/impact.analyzer';
+export { MessagingAnalyzer } from './analyzers/messaging.analyzer';
+export { MetricsAnalyzer } from './analyzers/metrics.analyzer';
+export { ResolutionAnalyzer } from './analyzers/resolution.analyzer';
+export { RuleAnalyzer } from './analyzers/rule.analyzer';
+export { ScopeAnalyzer } from './analyzers/scope.analyzer';
+export { TestingAnalyzer } from './analyzers/testing.analyzer';
+export { UnusedAnalyzer } from './analyzers/unused.analyzer';
+export { ConfigLoader } from './config/config.loader';
+export { GraphBuilder, SCHEMA_VERSION } from './graph/graph.builder';
+export { VisualizerRegistry } from './visualizers/visualizer.registry';
+
+export * from './types/config.types';
+export * from './types/cycles.types';
+export * from './types/diagnostics.types';
+export * from './types/graph.types';
+export * from './types/impact.types';
+export * from './types/messaging.types';
+export * from './types/metrics.types';
+export * from './types/modules.types';
+export * from './types/resolution.types';
+export * from './types/rules.types';
+export * from './types/scope.types';
+export * from './types/testing.types';
+export * from './types/unused.types';
+export * from './types/visualizer.types';
+export * from './types/workspace.types';
@@ -1,11 +1,33 @@
 #!/usr/bin/env node
 import { Command } from 'commander';
 import { AnalyzeCommand } from './cli/commands/analyze.command';
+import { CheckCommand } from './cli/commands/check.command';
+import { DiffCommand } from './cli/commands/diff.command';
+import { ImpactCommand } from './cli/commands/impact.command';
+import { InitCommand } from './cli/commands/init.command';
+import { MessagingCommand } from './cli/commands/messaging.command';
+import { MetricsCommand } from './cli/commands/metrics.command';
+import { RoutesCommand } from './cli/commands/routes.command';
+import { ScopesCommand } from './cli/commands/scopes.command';
+import { TestsCommand } from './cli/commands/tests.command';
+import { UnusedCommand } from './cli/commands/unused.command';
+import { ValidateCommand } from './cli/commands/validate.command';
 
 const program = new Command();
 
 program.name('nestjs-dependency-analyzer').description('NestJS project structure analyzer').version('1.0.0');
 
 program.addCommand(new AnalyzeCommand());
+program.addCommand(new ValidateCommand());
+program.addCommand(new RoutesCommand());
+program.addCommand(new CheckCommand());
+program.addCommand(new DiffCommand());
+program.addCommand(new MetricsCommand());
+program.addCommand(new UnusedCommand());
+program.addCommand(new ScopesCommand());
+program.addCommand(new MessagingCommand());
+program.addCommand(new TestsCommand());
+program.addCommand(new ImpactCommand());
+program.addCommand(new InitCommand());
 
 program.parse();
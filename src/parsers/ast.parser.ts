@@ -1,21 +1,91 @@
-import { ImportMetadata, ModuleMetadata, ProviderMetadata } from '../types/modules.types';
+import { Diagnostic, DiagnosticCode } from '../types/diagnostics.types';
+import {
+  ConfigurableModuleMetadata,
+  ControllerMetadata,
+  DynamicModuleMetadata,
+  EnhancerMetadata,
+  ImportMetadata,
+  InjectionMetadata,
+  MessageEndpoint,
+  MessageKind,
+  ModuleMetadata,
+  ProviderMetadata,
+  ProviderScope,
+  RouteMetadata,
+  TokenKind,
+} from '../types/modules.types';
+import { TestingModuleMetadata, TestingOverride, TestingOverrideKind } from '../types/testing.types';
+import { matchGlob } from '../utils/glob.util';
 import * as ts from 'typescript';
 
+const HTTP_METHOD_DECORATORS = ['Get', 'Post', 'Put', 'Delete', 'Patch', 'Options', 'Head', 'All', 'Search'];
+const SCOPES: ProviderScope[] = ['DEFAULT', 'REQUEST', 'TRANSIENT'];
+const OVERRIDE_METHODS: Record<string, TestingOverrideKind> = {
+  overrideProvider: 'provider',
+  overrideGuard: 'guard',
+  overrideInterceptor: 'interceptor',
+  overridePipe: 'pipe',
+  overrideFilter: 'filter',
+  overrideModule: 'module',
+};
+export const DEFAULT_IGNORED_MODULE_CLASSES = ['*Unknown*', '*Angular*'];
+const LIFECYCLE_HOOKS = ['onModuleInit', 'onApplicationBootstrap', 'onModuleDestroy', 'beforeApplicationShutdown', 'onApplicationShutdown'];
+
+type MessageChannel = Pick<MessageEndpoint, 'transport' | 'kind'>;
+
+const HANDLER_DECORATORS: Record<string, MessageChannel> = {
+  MessagePattern: { transport: 'microservice', kind: 'message' },
+  EventPattern: { transport: 'microservice', kind: 'event' },
+  OnEvent: { transport: 'event-emitter', kind: 'event' },
+};
+const CQRS_HANDLER_DECORATORS: Record<string, MessageKind> = { CommandHandler: 'command', QueryHandler: 'query', EventsHandler: 'event' };
+
+const MICROSERVICE_CLIENTS = ['ClientProxy', 'ClientKafka', 'ClientRMQ', 'ClientRedis', 'ClientNats', 'ClientMqtt', 'ClientTCP'];
+/** Calls that send a message, keyed by the declared type of the object they are called on. */
+const PRODUCER_CALLS: (MessageChannel & { types: string[]; method: string })[] = [
+  { types: MICROSERVICE_CLIENTS, method: 'send', transport: 'microservice', kind: 'message' },
+  { types: MICROSERVICE_CLIENTS, method: 'emit', transport: 'microservice', kind: 'event' },
+  { types: ['EventEmitter2'], method: 'emit', transport: 'event-emitter', kind: 'event' },
+  { types: ['EventEmitter2'], method: 'emitAsync', transport: 'event-emitter', kind: 'event' },
+  { types: ['CommandBus'], method: 'execute', transport: 'cqrs', kind: 'command' },
+  { types: ['QueryBus'], method: 'execute', transport: 'cqrs', kind: 'query' },
+  { types: ['EventBus'], method: 'publish', transport: 'cqrs', kind: 'event' },
+  { types: ['EventBus'], method: 'publishAll', transport: 'cqrs', kind: 'event' },
+];
+
+/**
+ * An entry of an array-valued `@Module()` property once spreads, constants and conditionals are
+ * followed. `anchor` is the node in the module file the entry came from, which locates entries
+ * declared in another file.
+ */
+interface ArrayEntry {
+  node: ts.Expression;
+  anchor: ts.Node;
+  condition?: string;
+}
+
 export class AstParser {
   private readonly sourceFile: ts.SourceFile;
-  private uniqueIdCounter = 1;
+  private readonly checker?: ts.TypeChecker;
   private readonly moduleCache = new Map<string, ModuleMetadata>();
-  private readonly providerCache = new Map<string, ProviderMetadata>();
-
-  constructor(sourceCode: string, fileName: string) {
-    this.sourceFile = ts.createSourceFile(fileName, sourceCode, ts.ScriptTarget.Latest, true);
-  }
-
-  private generateUniqueName(prefix: string): string {
-    return `${prefix}_${this.uniqueIdCounter++}`;
+  private readonly referencedFiles = new Set<string>();
+  private readonly diagnostics: Diagnostic[] = [];
+
+  /**
+   * @param ignoredModuleClasses Globs of `@Module()` class names `parseModule()` skips.
+   */
+  constructor(
+    sourceCode: string,
+    fileName: string,
+    program?: ts.Program,
+    private readonly ignoredModuleClasses: string[] = DEFAULT_IGNORED_MODULE_CLASSES,
+  ) {
+    const programSourceFile = program?.getSourceFile(fileName);
+    this.sourceFile = programSourceFile ?? ts.createSourceFile(fileName, sourceCode, ts.ScriptTarget.Latest, true);
+    this.checker = programSourceFile ? program?.getTypeChecker() : undefined;
   }
 
-  private findDecorator(node: ts.ClassDeclaration, name: string): ts.Decorator | undefined {
+  private findDecorator(node: ts.HasDecorators, name: string): ts.Decorator | undefined {
     const decorators = ts.getDecorators(node);
     if (!decorators) return undefined;
 
@@ -35,6 +105,23 @@ export class AstParser {
     });
   }
 
+  /**
+   * Other project files whose declarations were consulted while parsing (provider and controller
+   * classes, token constants, imported modules and the barrels in between). A cached parse result is
+   * only valid while none of them changed.
+   */
+  public getReferencedFiles(): string[] {
+    return Array.from(this.referencedFiles);
+  }
+
+  /**
+   * Metadata the last parse skipped because it cannot be evaluated statically, e.g. spread or
+   * conditional `imports` entries.
+   */
+  public getDiagnostics(): Diagnostic[] {
+    return [...this.diagnostics].sort((a, b) => a.line! - b.line! || a.column! - b.column!);
+  }
+
   public parseModule(): ModuleMetadata | null {
     const moduleClass = this.findModuleClass();
     if (!moduleClass) return null;
@@ -42,58 +129,219 @@ export class AstParser {
     const metadata = this.parseModuleDecorator(moduleClass);
     if (!metadata.name) return null;
 
+    this.diagnostics.forEach((diagnostic) => {
+      diagnostic.module = metadata.name;
+    });
     this.moduleCache.set(metadata.name, metadata);
     this.enrichWithSecondLevelDependencies(metadata);
 
     return metadata;
   }
 
+  /**
+   * Parses every `Test.createTestingModule({ ... })` call in a spec file the way `@Module()` metadata is
+   * parsed, together with the `override*()` calls chained on the builder.
+   */
+  public parseTestingModules(): TestingModuleMetadata[] {
+    const testingModules: TestingModuleMetadata[] = [];
+
+    const visit = (node: ts.Node) => {
+      if (this.isCreateTestingModuleCall(node)) {
+        const [argument] = node.arguments;
+        const metadata = argument && ts.isObjectLiteralExpression(argument) ? argument : undefined;
+        if (argument && !metadata) {
+          this.report('unsupported-module', argument, `Testing module metadata \`${this.getSnippet(argument)}\` is not an object literal`);
+        }
+
+        testingModules.push({
+          filePath: this.sourceFile.fileName,
+          line: this.getLocation(node).line,
+          suite: this.getSuiteTitle(node),
+          imports: metadata ? this.extractImports(metadata) : [],
+          providers: metadata ? this.extractProviders(metadata) : [],
+          controllers: metadata ? this.extractControllers(metadata) : [],
+          overrides: this.extractOverrides(node),
+        });
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(this.sourceFile);
+
+    return testingModules;
+  }
+
+  private isCreateTestingModuleCall(node: ts.Node): node is ts.CallExpression {
+    return (
+      ts.isCallExpression(node) &&
+      ts.isPropertyAccessExpression(node.expression) &&
+      node.expression.name.text === 'createTestingModule' &&
+      ts.isIdentifier(node.expression.expression) &&
+      node.expression.expression.text === 'Test'
+    );
+  }
+
+  /**
+   * Follows the builder chain, e.g. `.overrideProvider(UsersRepository).useValue(mock).compile()`. Each
+   * `override*()` call is completed by the `use*()` call after it.
+   */
+  private extractOverrides(call: ts.CallExpression): TestingOverride[] {
+    const overrides: TestingOverride[] = [];
+    let pending: { kind: TestingOverrideKind; token: string; line: number } | undefined;
+    let current: ts.Expression = call;
+
+    while (ts.isPropertyAccessExpression(current.parent) && ts.isCallExpression(current.parent.parent)) {
+      const next = current.parent.parent;
+      if (next.expression !== current.parent) break;
+
+      const method = current.parent.name.text;
+      const [argument] = next.arguments;
+      if (OVERRIDE_METHODS[method] && argument) {
+        pending = { kind: OVERRIDE_METHODS[method], token: this.resolveToken(argument).token, line: this.getLocation(next).line };
+      } else if (pending && (method === 'useValue' || method === 'useClass' || method === 'useFactory' || method === 'useModule')) {
+        const replacement = method === 'useClass' || method === 'useModule' ? argument?.getText() : undefined;
+        overrides.push({ ...pending, method, ...(replacement ? { replacement } : {}) });
+        pending = undefined;
+      }
+      current = next;
+    }
+
+    return overrides;
+  }
+
+  private getSuiteTitle(node: ts.Node): string | undefined {
+    for (let parent = node.parent; parent; parent = parent.parent) {
+      if (
+        ts.isCallExpression(parent) &&
+        ts.isIdentifier(parent.expression) &&
+        parent.expression.text === 'describe' &&
+        parent.arguments[0] &&
+        ts.isStringLiteralLike(parent.arguments[0])
+      ) {
+        return parent.arguments[0].text;
+      }
+    }
+    return undefined;
+  }
+
   private findModuleClass(): ts.ClassDeclaration | undefined {
     return this.sourceFile.statements.find(
       (stmt): stmt is ts.ClassDeclaration =>
         ts.isClassDeclaration(stmt) &&
         !!stmt.name?.text && // Ensure the class has a name
         this.hasDecorator(stmt, 'Module') &&
-        !stmt.name.text.includes('Unknown') && // Filter out unknown modules
-        !stmt.name.text.includes('Angular'), // Filter out incorrectly parsed modules
+        !matchGlob(this.ignoredModuleClasses, stmt.name.text),
     );
   }
 
-  private hasDecorator(node: ts.ClassDeclaration, name: string): boolean {
+  private hasDecorator(node: ts.HasDecorators, name: string): boolean {
     return !!this.findDecorator(node, name);
   }
 
   private parseModuleDecorator(node: ts.ClassDeclaration): ModuleMetadata {
-    const decorator = this.findDecorator(node, 'Module');
-    if (!decorator || !ts.isCallExpression(decorator.expression)) {
-      return this.createEmptyModuleMetadata();
-    }
+    const decorator = this.findDecorator(node, 'Module')!;
+    const name = node.name!.text;
 
-    const argument = decorator.expression.arguments[0];
+    const argument = (decorator.expression as ts.CallExpression).arguments[0];
     if (!argument || !ts.isObjectLiteralExpression(argument)) {
-      return this.createEmptyModuleMetadata();
+      if (argument) {
+        this.report('unsupported-module', argument, `@Module() metadata \`${this.getSnippet(argument)}\` is not an object literal`);
+      }
+      return this.createEmptyModuleMetadata(node);
+    }
+
+    const imports = this.extractImports(argument);
+    const importNames = new Set(imports.map((imp) => imp.name));
+    const exportElements = this.getArrayEntries(argument, 'exports').map((entry) => entry.node);
+    const configurable = this.parseConfigurableModule(node);
+    const providers = this.extractProviders(argument);
+
+    // The class generated by ConfigurableModuleBuilder registers the options token on the module itself
+    if (configurable?.optionsToken) {
+      providers.push({
+        name: configurable.optionsToken,
+        type: 'value',
+        dependencies: [],
+        isInjectable: false,
+        provide: configurable.optionsToken,
+      });
     }
 
     return {
-      name: node.name?.text ?? this.generateUniqueName('Module'),
+      id: `${this.sourceFile.fileName}#${name}`,
+      name,
       filePath: this.sourceFile.fileName,
-      imports: this.extractImports(argument),
-      exports: this.extractExports(argument),
-      providers: this.extractProviders(argument),
+      line: this.getLocation(node).line,
+      isGlobal: this.hasDecorator(node, 'Global'),
+      imports,
+      exports: this.extractExports(exportElements, importNames),
+      reExports: this.extractReExports(exportElements, importNames),
+      providers,
       controllers: this.extractControllers(argument),
+      configurable,
     };
   }
 
+  /**
+   * Recognizes `class XModule extends ConfigurableModuleClass {}` where the base class is destructured
+   * from `new ConfigurableModuleBuilder<T>()...build()`, and reads the method names and options token
+   * the builder was configured with.
+   */
+  private parseConfigurableModule(node: ts.ClassDeclaration): ConfigurableModuleMetadata | undefined {
+    const baseClass = node.heritageClauses?.find((clause) => clause.token === ts.SyntaxKind.ExtendsKeyword)?.types[0]?.expression;
+    if (!baseClass || !ts.isIdentifier(baseClass)) return undefined;
+
+    const bindingElement = this.findBindingElement(baseClass);
+    const declaration = bindingElement?.parent.parent;
+    if (!declaration || !ts.isVariableDeclaration(declaration) || !declaration.initializer) return undefined;
+
+    const metadata: ConfigurableModuleMetadata = { classMethodName: 'register', factoryClassMethodName: 'create' };
+    let expression: ts.Expression = declaration.initializer;
+
+    while (ts.isCallExpression(expression) && ts.isPropertyAccessExpression(expression.expression)) {
+      const [argument] = expression.arguments;
+      const value = argument && ts.isStringLiteral(argument) ? argument.text : undefined;
+
+      if (expression.expression.name.text === 'setClassMethodName' && value) metadata.classMethodName = value;
+      if (expression.expression.name.text === 'setFactoryMethodName' && value) metadata.factoryClassMethodName = value;
+
+      expression = expression.expression.expression;
+    }
+
+    if (!ts.isNewExpression(expression) || expression.expression.getText() !== 'ConfigurableModuleBuilder') {
+      return undefined;
+    }
+
+    const optionsToken = (bindingElement.parent as ts.ObjectBindingPattern).elements.find(
+      (element) => (element.propertyName ?? element.name).getText() === 'MODULE_OPTIONS_TOKEN',
+    );
+    metadata.optionsToken = optionsToken?.name.getText();
+
+    return metadata;
+  }
+
+  private findBindingElement(identifier: ts.Identifier): ts.BindingElement | undefined {
+    const declaration = this.resolveDeclarations(identifier).find(ts.isBindingElement);
+    if (declaration) return declaration;
+
+    for (const stmt of this.sourceFile.statements) {
+      if (!ts.isVariableStatement(stmt)) continue;
+
+      for (const variable of stmt.declarationList.declarations) {
+        if (!ts.isObjectBindingPattern(variable.name)) continue;
+
+        const element = variable.name.elements.find((candidate) => candidate.name.getText() === identifier.text);
+        if (element) return element;
+      }
+    }
+
+    return undefined;
+  }
+
   private enrichWithSecondLevelDependencies(module: ModuleMetadata): void {
     module.imports = module.imports.map((importMeta) => ({
       ...importMeta,
       dependencies: this.getModuleDependencies(importMeta.name),
     }));
-
-    module.providers = module.providers.map((provider) => ({
-      ...provider,
-      dependencies: this.getProviderDependencyTree(provider.name),
-    }));
   }
 
   private getModuleDependencies(moduleName: string): string[] {
@@ -103,48 +351,74 @@ export class AstParser {
     return [...cachedModule.imports.map((imp) => imp.name), ...cachedModule.providers.map((prov) => prov.name)];
   }
 
-  private getProviderDependencyTree(providerName: string, visited = new Set<string>()): string[] {
-    if (visited.has(providerName)) return [];
-    visited.add(providerName);
-
-    const provider = this.providerCache.get(providerName);
-    if (!provider) return [];
-
-    const directDeps = provider.dependencies ?? [];
-    const nestedDeps = directDeps.flatMap((dep) => this.getProviderDependencyTree(dep, visited));
-
-    return [...new Set([...directDeps, ...nestedDeps])];
+  private extractImports(node: ts.ObjectLiteralExpression): ImportMetadata[] {
+    return this.getArrayEntries(node, 'imports').flatMap((entry) => {
+      const imp = this.parseImportElement(entry.node);
+      return imp ? [{ ...imp, line: this.getLocation(entry.anchor).line, ...this.getCondition(entry) }] : [];
+    });
   }
 
-  private extractImports(node: ts.ObjectLiteralExpression): ImportMetadata[] {
-    const imports = this.findPropertyAssignment(node, 'imports');
-    if (!imports || !ts.isArrayLiteralExpression(imports.initializer)) {
-      return [];
-    }
+  /**
+   * Returns null, and reports why, for entries whose module is only known at runtime. Variables are
+   * followed to the module class or dynamic module call they hold.
+   */
+  private parseImportElement(element: ts.Expression): ImportMetadata | null {
+    if (ts.isIdentifier(element)) {
+      const variable = this.findVariable(element);
+      if (!variable) return this.createImportMetadata(element);
 
-    return imports.initializer.elements.map((element) => {
-      if (ts.isIdentifier(element)) {
-        return this.createImportMetadata(element);
+      const initializer = variable.initializer && this.unwrapExpression(variable.initializer);
+      if (initializer && (ts.isIdentifier(initializer) || ts.isCallExpression(initializer))) {
+        return this.parseImportElement(initializer);
       }
+      this.report('unsupported-import', element, `Skipped import \`${element.text}\`: the module stored in the variable is not resolved`);
+      return null;
+    }
 
-      if (ts.isCallExpression(element)) {
-        return this.parseAsyncImport(element);
-      }
+    if (ts.isCallExpression(element)) {
+      return this.parseAsyncImport(element);
+    }
 
-      return this.createUnknownImport();
-    });
+    this.report(
+      'unsupported-import',
+      element,
+      `Skipped import \`${this.getSnippet(element)}\`: the expression is not a module class or a dynamic module call`,
+    );
+    return null;
   }
 
   private createImportMetadata(identifier: ts.Identifier): ImportMetadata {
     return {
       name: identifier.text,
-      path: this.resolveImportPath(identifier),
+      ...this.resolveImportSource(identifier),
       isAsync: false,
       dependencies: [],
     };
   }
 
-  private resolveImportPath(identifier: ts.Node): string | undefined {
+  /**
+   * Prefers the file that declares the imported module class so that modules sharing a name
+   * (e.g. one `AppModule` per app in a monorepo) can be told apart; falls back to the import specifier.
+   * Modules that are not declared in the project also get the package they are imported from.
+   */
+  private resolveImportSource(identifier: ts.Node): Pick<ImportMetadata, 'path' | 'package'> {
+    const classDecl = ts.isIdentifier(identifier) ? this.findClassDeclaration(identifier) : undefined;
+    const declarationFile = classDecl?.getSourceFile();
+    if (declarationFile && !declarationFile.isDeclarationFile) {
+      return { path: declarationFile.fileName };
+    }
+
+    const specifier = this.findImportSpecifier(identifier);
+    if (!specifier) return { path: undefined };
+
+    const packageName = this.getPackageName(specifier);
+    return {
+      path: specifier.startsWith('@nestjs/') ? specifier.split('/').pop() : specifier,
+      ...(packageName ? { package: packageName } : {}),
+    };
+  }
+
+  private findImportSpecifier(identifier: ts.Node): string | undefined {
     const importDecl = this.sourceFile.statements.find((stmt): stmt is ts.ImportDeclaration => {
       if (!ts.isImportDeclaration(stmt)) return false;
       const { importClause } = stmt;
@@ -172,15 +446,20 @@ export class AstParser {
     if (!importDecl?.moduleSpecifier || !ts.isStringLiteral(importDecl.moduleSpecifier)) {
       return undefined;
     }
+    return importDecl.moduleSpecifier.text;
+  }
 
-    const path = importDecl.moduleSpecifier.text;
-    if (path.startsWith('@nestjs/')) {
-      return path.split('/').pop();
-    }
-    return path;
+  /**
+   * `@nestjs/config` for `@nestjs/config/dist/...`, `lodash` for `lodash/fp`; undefined for relative imports.
+   */
+  private getPackageName(specifier: string): string | undefined {
+    if (specifier.startsWith('.') || specifier.startsWith('/')) return undefined;
+
+    const segments = specifier.split('/');
+    return (specifier.startsWith('@') ? segments.slice(0, 2) : segments.slice(0, 1)).join('/');
   }
 
-  private parseAsyncImport(callExpression: ts.CallExpression): ImportMetadata {
+  private parseAsyncImport(callExpression: ts.CallExpression): ImportMetadata | null {
     // Handle forwardRef case
     if (ts.isIdentifier(callExpression.expression) && callExpression.expression.text === 'forwardRef') {
       // forwardRef should have one argument that is an arrow function
@@ -190,14 +469,19 @@ export class AstParser {
         if (ts.isIdentifier(returnExpr)) {
           return {
             name: returnExpr.text,
-            path: this.resolveImportPath(returnExpr),
+            ...this.resolveImportSource(returnExpr),
             isAsync: true,
             isForwardReference: true,
             dependencies: [],
           };
         }
       }
-      return this.createUnknownImport();
+      this.report(
+        'unsupported-import',
+        callExpression,
+        `Skipped import \`${this.getSnippet(callExpression)}\`: forwardRef() must return a module class`,
+      );
+      return null;
     }
 
     // Handle other async imports (like TypeOrmModule.forRoot())
@@ -206,55 +490,380 @@ export class AstParser {
         const moduleName = callExpression.expression.expression.getText();
         return {
           name: moduleName,
-          path: this.resolveImportPath(callExpression.expression.expression as ts.Identifier),
+          ...this.resolveImportSource(callExpression.expression.expression as ts.Identifier),
           isAsync: true,
           dependencies: [],
+          dynamic: this.parseDynamicModuleCall(callExpression, callExpression.expression.name.text),
         };
       }
-      return this.createUnknownImport();
+      this.report(
+        'unsupported-import',
+        callExpression,
+        `Skipped import \`${this.getSnippet(callExpression)}\`: the called expression is not resolved`,
+      );
+      return null;
     }
 
     return {
       name: callExpression.expression.text,
-      path: this.resolveImportPath(callExpression.expression as ts.Identifier),
+      ...this.resolveImportSource(callExpression.expression as ts.Identifier),
       isAsync: true,
       dependencies: [],
     };
   }
-  private extractExports(node: ts.ObjectLiteralExpression): string[] {
-    const exportsProp = this.findPropertyAssignment(node, 'exports');
-    if (!exportsProp || !ts.isArrayLiteralExpression(exportsProp.initializer)) {
-      return [];
+  /**
+   * Models calls such as `TypeOrmModule.forFeature([User])` or
+   * `JwtModule.registerAsync({ imports, inject, useFactory })`: array arguments are treated as the
+   * feature list and an object argument as the module options.
+   */
+  private parseDynamicModuleCall(callExpression: ts.CallExpression, method: string): DynamicModuleMetadata {
+    const dynamic: DynamicModuleMetadata = {
+      method,
+      isAsync: method.endsWith('Async'),
+      features: [],
+      imports: [],
+      inject: [],
+    };
+
+    callExpression.arguments.forEach((argument) => {
+      if (ts.isArrayLiteralExpression(argument)) {
+        dynamic.features.push(...argument.elements.map((element) => this.getFeatureName(element)));
+        return;
+      }
+
+      if (!ts.isObjectLiteralExpression(argument)) return;
+
+      dynamic.imports = this.extractImports(argument);
+
+      dynamic.inject = this.extractFactoryInjections(argument).map((injection) => injection.token);
+      dynamic.useClass = this.getPropertyValue(argument, 'useClass');
+      dynamic.useExisting = this.getPropertyValue(argument, 'useExisting');
+      dynamic.useFactory = this.getFactoryName(argument);
+    });
+
+    return dynamic;
+  }
+
+  private getFeatureName(element: ts.Expression): string {
+    // Mongoose-style features: `{ name: Cat.name, schema: CatSchema }`
+    if (ts.isObjectLiteralExpression(element)) {
+      const name = this.findPropertyAssignment(element, 'name');
+      if (name) {
+        return ts.isPropertyAccessExpression(name.initializer) ? name.initializer.expression.getText() : name.initializer.getText();
+      }
     }
 
-    return exportsProp.initializer.elements.filter(ts.isIdentifier).map((identifier) => identifier.text);
+    return element.getText();
   }
 
-  private extractControllers(node: ts.ObjectLiteralExpression): string[] {
-    const controllersProp = this.findPropertyAssignment(node, 'controllers');
-    if (!controllersProp || !ts.isArrayLiteralExpression(controllersProp.initializer)) {
-      return [];
+  private getFactoryName(node: ts.ObjectLiteralExpression): string | undefined {
+    const property = this.findPropertyAssignment(node, 'useFactory');
+    if (!property) {
+      return node.properties.some((prop) => ts.isMethodDeclaration(prop) && prop.name.getText() === 'useFactory') ? 'inline' : undefined;
     }
 
-    return controllersProp.initializer.elements.filter(ts.isIdentifier).map((identifier) => identifier.text);
+    return ts.isIdentifier(property.initializer) || ts.isPropertyAccessExpression(property.initializer)
+      ? property.initializer.getText()
+      : 'inline';
   }
 
-  private extractProviders(node: ts.ObjectLiteralExpression): ProviderMetadata[] {
-    const providers = this.findPropertyAssignment(node, 'providers');
-    if (!providers || !ts.isArrayLiteralExpression(providers.initializer)) {
+  private extractExports(elements: readonly ts.Expression[], importNames: Set<string>): string[] {
+    return elements.flatMap((element) => {
+      if (ts.isStringLiteralLike(element)) return [element.text];
+      if (ts.isCallExpression(element) && ts.isPropertyAccessExpression(element.expression)) return [];
+      if (!ts.isIdentifier(element)) {
+        this.report('unsupported-export', element, `Skipped export \`${this.getSnippet(element)}\`: only tokens and modules are resolved`);
+        return [];
+      }
+      if (this.isModuleReference(element, importNames)) return [];
+
+      return [this.resolveToken(element).token];
+    });
+  }
+
+  private extractReExports(elements: readonly ts.Expression[], importNames: Set<string>): string[] {
+    return elements.flatMap((element) => {
+      if (ts.isIdentifier(element)) {
+        return this.isModuleReference(element, importNames) ? [element.text] : [];
+      }
+
+      // Dynamic modules can be exported as-is, e.g. `exports: [ConfigModule.forFeature(config)]`
+      if (ts.isCallExpression(element) && ts.isPropertyAccessExpression(element.expression)) {
+        return [element.expression.expression.getText()];
+      }
+
+      return [];
+    });
+  }
+
+  /**
+   * Entries of an array-valued `@Module()` property, such as
+   * `imports: [...COMMON_IMPORTS, ...(env.FEATURE_X ? [FeatureXModule] : [])]` or `controllers: CONTROLLERS`.
+   * Values that cannot be evaluated statically are reported and treated as empty.
+   */
+  private getArrayEntries(node: ts.ObjectLiteralExpression, propertyName: string): ArrayEntry[] {
+    const property = this.findPropertyAssignment(node, propertyName);
+    if (!property) return [];
+
+    const value = this.unwrapExpression(property.initializer);
+    const entries = this.resolveArray(value, ts.isArrayLiteralExpression(value) ? undefined : property.initializer, undefined, new Set());
+    if (!entries) {
+      this.report(
+        'unsupported-metadata',
+        property.initializer,
+        `Skipped ${propertyName} \`${this.getSnippet(property.initializer)}\`: the value is not an array that can be resolved statically`,
+      );
       return [];
     }
+    return entries;
+  }
+
+  /**
+   * Flattens array literals, spreads, constants (also from other files) and `cond ? [...] : [...]`
+   * into entries; entries of a conditional branch carry the condition text. Returns undefined when
+   * `node` does not evaluate to an array statically.
+   */
+  private resolveArray(
+    node: ts.Expression,
+    anchor: ts.Node | undefined,
+    condition: string | undefined,
+    visited: Set<ts.Node>,
+  ): ArrayEntry[] | undefined {
+    const expression = this.unwrapExpression(node);
+
+    if (ts.isArrayLiteralExpression(expression)) {
+      return expression.elements.flatMap((element) => {
+        const elementAnchor = anchor ?? element;
+        if (!ts.isSpreadElement(element)) return this.resolveEntry(element, elementAnchor, condition);
+
+        const spread = this.resolveArray(element.expression, elementAnchor, condition, visited);
+        if (!spread) {
+          this.report(
+            'unsupported-metadata',
+            element,
+            `Skipped \`${this.getSnippet(element)}\`: the spread value cannot be resolved statically`,
+          );
+        }
+        return spread ?? [];
+      });
+    }
+
+    if (ts.isConditionalExpression(expression)) {
+      const whenTrue = this.resolveArray(expression.whenTrue, anchor, this.joinConditions(condition, expression.condition), visited);
+      const whenFalse = this.resolveArray(
+        expression.whenFalse,
+        anchor,
+        this.joinConditions(condition, expression.condition, true),
+        visited,
+      );
+      return whenTrue && whenFalse ? [...whenTrue, ...whenFalse] : undefined;
+    }
+
+    if (ts.isIdentifier(expression)) {
+      const initializer = this.findVariable(expression)?.initializer;
+      if (!initializer || visited.has(initializer)) return undefined;
+
+      visited.add(initializer);
+      return this.resolveArray(initializer, anchor, condition, visited);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * `cond ? AModule : BModule` as an array element registers one of both modules.
+   */
+  private resolveEntry(element: ts.Expression, anchor: ts.Node, condition: string | undefined): ArrayEntry[] {
+    const expression = this.unwrapExpression(element);
+    if (!ts.isConditionalExpression(expression)) return [{ node: expression, anchor, condition }];
+
+    return [
+      ...this.resolveEntry(expression.whenTrue, anchor, this.joinConditions(condition, expression.condition)),
+      ...this.resolveEntry(expression.whenFalse, anchor, this.joinConditions(condition, expression.condition, true)),
+    ].filter((entry) => entry.node.kind !== ts.SyntaxKind.NullKeyword && !(ts.isIdentifier(entry.node) && entry.node.text === 'undefined'));
+  }
+
+  private joinConditions(outer: string | undefined, node: ts.Expression, isNegated = false): string {
+    const text = node.getText().replace(/\s+/g, ' ');
+    const isSimple =
+      ts.isIdentifier(node) || ts.isPropertyAccessExpression(node) || ts.isCallExpression(node) || ts.isElementAccessExpression(node);
+    const condition = isNegated ? (isSimple ? `!${text}` : `!(${text})`) : text;
+    const operand = isSimple || isNegated ? condition : `(${condition})`;
 
-    return providers.initializer.elements
-      .map((element) => this.parseProvider(element))
-      .filter((provider): provider is ProviderMetadata => !!provider);
+    return outer ? `${outer} && ${operand}` : condition;
+  }
+
+  private getCondition({ condition }: Pick<ArrayEntry, 'condition'>): { condition?: string } {
+    return condition ? { condition } : {};
+  }
+
+  /**
+   * Strips parentheses and type-only wrappers such as `as const` and `satisfies`.
+   */
+  private unwrapExpression(node: ts.Expression): ts.Expression {
+    if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node) || ts.isNonNullExpression(node)) {
+      return this.unwrapExpression(node.expression);
+    }
+    return node;
+  }
+
+  /**
+   * An exported identifier is a module re-export when the module also imports it or when it resolves
+   * to a `@Module()` class. Declarations from compiled packages carry no decorators, so for those the
+   * naming convention is the only hint left.
+   */
+  private isModuleReference(identifier: ts.Identifier, importNames: Set<string>): boolean {
+    if (importNames.has(identifier.text)) return true;
+
+    const classDecl = this.findClassDeclaration(identifier);
+    if (classDecl && !classDecl.getSourceFile().isDeclarationFile) {
+      return this.hasDecorator(classDecl, 'Module');
+    }
+
+    return identifier.text.endsWith('Module');
+  }
+
+  private extractControllers(node: ts.ObjectLiteralExpression): ControllerMetadata[] {
+    return this.getArrayEntries(node, 'controllers').flatMap(({ node: element, ...entry }) => {
+      if (!ts.isIdentifier(element)) {
+        this.report(
+          'unsupported-controller',
+          element,
+          `Skipped controller \`${this.getSnippet(element)}\`: only class references are resolved`,
+        );
+        return [];
+      }
+      return [{ ...this.createControllerMetadata(element), line: this.getLocation(entry.anchor).line, ...this.getCondition(entry) }];
+    });
+  }
+
+  private createControllerMetadata(identifier: ts.Identifier): ControllerMetadata {
+    const classDecl = this.findClassDeclaration(identifier);
+    const injections = classDecl ? this.extractInjections(classDecl) : [];
+
+    return {
+      name: identifier.text,
+      path: classDecl ? this.extractControllerPath(classDecl) : '',
+      dependencies: injections.map((injection) => injection.token),
+      injections,
+      version: classDecl ? this.extractControllerVersion(classDecl) : undefined,
+      enhancers: classDecl ? this.extractEnhancers(classDecl) : undefined,
+      routes: classDecl ? this.extractRoutes(classDecl) : [],
+      ...(classDecl ? this.extractScope(this.getControllerOptions(classDecl)) : {}),
+      ...(classDecl ? this.extractMessaging(classDecl) : {}),
+    };
+  }
+
+  private extractControllerPath(node: ts.ClassDeclaration): string {
+    const argument = this.getControllerOptions(node);
+    if (!argument) return '';
+    if (ts.isStringLiteral(argument)) return argument.text;
+    if (ts.isObjectLiteralExpression(argument)) return this.getPropertyValue(argument, 'path') ?? '';
+
+    return '';
+  }
+
+  private extractControllerVersion(node: ts.ClassDeclaration): string[] | undefined {
+    const argument = this.getControllerOptions(node);
+    if (!argument || !ts.isObjectLiteralExpression(argument)) return undefined;
+
+    const version = this.findPropertyAssignment(argument, 'version');
+    return version ? this.getStringList(version.initializer) : undefined;
+  }
+
+  private getControllerOptions(node: ts.ClassDeclaration): ts.Expression | undefined {
+    const decorator = this.findDecorator(node, 'Controller');
+    if (!decorator || !ts.isCallExpression(decorator.expression)) return undefined;
+
+    return decorator.expression.arguments[0];
+  }
+
+  private extractRoutes(node: ts.ClassDeclaration): RouteMetadata[] {
+    return node.members.filter(ts.isMethodDeclaration).flatMap((method) => {
+      const routeDecorator = HTTP_METHOD_DECORATORS.map((name) => this.findDecorator(method, name)).find((decorator) => !!decorator);
+      if (!routeDecorator || !ts.isCallExpression(routeDecorator.expression)) return [];
+
+      const [pathArgument] = routeDecorator.expression.arguments;
+      const paths = pathArgument ? this.getStringList(pathArgument) : [''];
+      const version = this.findDecorator(method, 'Version')?.expression as ts.CallExpression | undefined;
+      const enhancers = this.extractEnhancers(method);
+      enhancers.pipes.push(...this.extractParameterPipes(method));
+
+      return paths.map((path) => ({
+        method: routeDecorator.expression.getText().split('(')[0].toUpperCase(),
+        path,
+        handler: method.name.getText(),
+        version: version?.arguments[0] ? this.getStringList(version.arguments[0]) : undefined,
+        enhancers,
+      }));
+    });
+  }
+
+  private extractEnhancers(node: ts.ClassDeclaration | ts.MethodDeclaration): EnhancerMetadata {
+    const getBound = (decoratorName: string) => {
+      const decorator = this.findDecorator(node, decoratorName)?.expression as ts.CallExpression | undefined;
+      return decorator ? decorator.arguments.map((argument) => this.getEnhancerName(argument)) : [];
+    };
+
+    return {
+      guards: getBound('UseGuards'),
+      interceptors: getBound('UseInterceptors'),
+      pipes: getBound('UsePipes'),
+      filters: getBound('UseFilters'),
+    };
+  }
+
+  /**
+   * Pipes bound to a single argument, e.g. `@Param('id', ParseIntPipe)` or `@Body(new ValidationPipe())`.
+   */
+  private extractParameterPipes(method: ts.MethodDeclaration): string[] {
+    return method.parameters.flatMap((param) =>
+      (ts.getDecorators(param) ?? []).flatMap((decorator) => {
+        if (!ts.isCallExpression(decorator.expression)) return [];
+
+        return decorator.expression.arguments
+          .filter((argument) => ts.isNewExpression(argument) || (ts.isIdentifier(argument) && argument.text.endsWith('Pipe')))
+          .map((argument) => this.getEnhancerName(argument));
+      }),
+    );
+  }
+
+  private getEnhancerName(node: ts.Expression): string {
+    if (ts.isNewExpression(node) || ts.isCallExpression(node)) {
+      return node.expression.getText();
+    }
+
+    return node.getText();
+  }
+
+  private getStringList(node: ts.Expression): string[] {
+    if (ts.isArrayLiteralExpression(node)) {
+      return node.elements.flatMap((element) => this.getStringList(element));
+    }
+
+    return [ts.isStringLiteralLike(node) ? node.text : node.getText()];
+  }
+
+  private extractProviders(node: ts.ObjectLiteralExpression): ProviderMetadata[] {
+    return this.getArrayEntries(node, 'providers').flatMap(({ node: element, ...entry }) => {
+      const provider = this.parseProvider(element);
+      if (!provider) {
+        this.report(
+          'unsupported-provider',
+          element,
+          `Skipped provider \`${this.getSnippet(element)}\`: only classes and provider objects with \`provide\` are resolved`,
+        );
+        return [];
+      }
+      return [{ ...provider, line: this.getLocation(entry.anchor).line, ...this.getCondition(entry) }];
+    });
   }
 
   private parseProvider(element: ts.Expression): ProviderMetadata | null {
     if (ts.isIdentifier(element)) {
-      const provider = this.createProviderMetadata(element);
-      this.providerCache.set(provider.name, provider);
-      return provider;
+      // e.g. `export const userRepositoryProvider = { provide: USER_REPOSITORY, useFactory }` in another file
+      const initializer = this.findVariable(element)?.initializer;
+      return initializer ? this.parseProvider(this.unwrapExpression(initializer)) : this.createProviderMetadata(element);
     }
 
     if (ts.isObjectLiteralExpression(element)) {
@@ -265,43 +874,80 @@ export class AstParser {
   }
 
   private parseProviderObjectLiteral(node: ts.ObjectLiteralExpression): ProviderMetadata | null {
-    const provide = this.getPropertyValue(node, 'provide');
-    if (!provide) return null;
+    const provideProp = this.findPropertyAssignment(node, 'provide');
+    if (!provideProp) return null;
 
+    const { token: provide, tokenKind } = this.resolveToken(provideProp.initializer);
     const useClass = this.getPropertyValue(node, 'useClass');
-    const useValue = this.getPropertyValue(node, 'useValue');
-    const useFactory = this.getPropertyValue(node, 'useFactory');
+    const useExistingProp = this.findPropertyAssignment(node, 'useExisting');
+    const useFactory = this.getFactoryName(node);
 
-    let type: 'class' | 'value' | 'factory' = 'class';
-    let dependencies: string[] = [];
-    let name = provide;
+    let type: ProviderMetadata['type'] = 'class';
+    let injections: InjectionMetadata[] = [];
+    let useExisting: string | undefined;
+
+    const classDecl = this.findClassDeclaration(
+      useClass ? this.findPropertyAssignment(node, 'useClass')?.initializer : provideProp.initializer,
+    );
 
     if (useClass) {
-      type = 'class';
-      const classDecl = this.findClassDeclaration(useClass);
-      dependencies = classDecl ? this.extractConstructorDependencies(classDecl) : [];
+      injections = classDecl ? this.extractInjections(classDecl) : [];
+    } else if (useExistingProp) {
+      type = 'existing';
+      const target = this.resolveToken(useExistingProp.initializer);
+      useExisting = target.token;
+      injections = [{ ...target, kind: 'existing', isOptional: false, isForwardReference: false, ...this.getLocation(useExistingProp) }];
     } else if (useFactory) {
       type = 'factory';
-      const inject = this.getArrayPropertyValue(node, 'inject') || [];
-      dependencies = inject;
-    } else if (useValue !== undefined) {
+      injections = this.extractFactoryInjections(node);
+    } else if (this.findPropertyAssignment(node, 'useValue')) {
       type = 'value';
+    } else {
+      injections = classDecl ? this.extractInjections(classDecl) : [];
     }
 
-    const metadata: ProviderMetadata = {
-      name,
+    return {
+      name: provide,
       type,
-      dependencies,
-      isInjectable: type === 'class' && this.isClassInjectable(useClass || name),
+      dependencies: injections.map((injection) => injection.token),
+      isInjectable: type === 'class' && !!classDecl && this.hasDecorator(classDecl, 'Injectable'),
       provide,
+      tokenKind,
       useClass,
-      useValue,
+      useValue: this.getPropertyValue(node, 'useValue'),
       useFactory,
-      inject: dependencies,
+      useExisting,
+      inject: type === 'factory' ? injections.map((injection) => injection.token) : undefined,
+      injections,
+      lifecycleHooks: type === 'class' && classDecl ? this.extractLifecycleHooks(classDecl) : undefined,
+      // Nest falls back to the class's @Injectable() scope when a class provider does not set one
+      ...(type === 'class' && classDecl ? this.getClassScope(classDecl) : {}),
+      ...this.extractScope(node),
+      ...(type === 'class' && classDecl ? this.extractMessaging(classDecl) : {}),
     };
+  }
 
-    this.providerCache.set(name, metadata);
-    return metadata;
+  /**
+   * `inject` entries are either tokens or `{ token, optional }` objects; their position matches
+   * the factory's parameter index.
+   */
+  private extractFactoryInjections(node: ts.ObjectLiteralExpression): InjectionMetadata[] {
+    const inject = this.findPropertyAssignment(node, 'inject');
+    if (!inject || !ts.isArrayLiteralExpression(inject.initializer)) return [];
+
+    return inject.initializer.elements.map((element, index) => {
+      const tokenProp = ts.isObjectLiteralExpression(element) ? this.findPropertyAssignment(element, 'token') : undefined;
+      const optionalProp = ts.isObjectLiteralExpression(element) ? this.findPropertyAssignment(element, 'optional') : undefined;
+
+      return {
+        ...this.resolveToken(tokenProp?.initializer ?? element),
+        kind: 'factory',
+        index,
+        isOptional: optionalProp?.initializer.kind === ts.SyntaxKind.TrueKeyword,
+        isForwardReference: false,
+        ...this.getLocation(element),
+      };
+    });
   }
 
   private findPropertyAssignment(node: ts.ObjectLiteralExpression, propertyName: string): ts.PropertyAssignment | undefined {
@@ -324,63 +970,425 @@ export class AstParser {
     return undefined;
   }
 
-  private getArrayPropertyValue(node: ts.ObjectLiteralExpression, propertyName: string): string[] | undefined {
-    const property = this.findPropertyAssignment(node, propertyName);
-    if (!property || !ts.isArrayLiteralExpression(property.initializer)) {
-      return undefined;
-    }
-
-    return property.initializer.elements.filter(ts.isIdentifier).map((identifier) => identifier.text);
-  }
-
   private createProviderMetadata(identifier: ts.Identifier): ProviderMetadata {
-    const classDecl = this.findClassDeclaration(identifier.text);
-    const dependencies = classDecl ? this.extractConstructorDependencies(classDecl) : [];
+    const classDecl = this.findClassDeclaration(identifier);
+    const injections = classDecl ? this.extractInjections(classDecl) : [];
 
     return {
       name: identifier.text,
       type: 'class',
-      dependencies,
+      dependencies: injections.map((injection) => injection.token),
       isInjectable: classDecl ? this.hasDecorator(classDecl, 'Injectable') : false,
       provide: identifier.text,
+      tokenKind: 'class',
+      injections,
+      lifecycleHooks: classDecl ? this.extractLifecycleHooks(classDecl) : undefined,
+      ...(classDecl ? this.getClassScope(classDecl) : {}),
+      ...(classDecl ? this.extractMessaging(classDecl) : {}),
+    };
+  }
+
+  private getClassScope(node: ts.ClassDeclaration): Pick<ProviderMetadata, 'scope' | 'durable'> {
+    const decorator = this.findDecorator(node, 'Injectable');
+    return decorator && ts.isCallExpression(decorator.expression) ? this.extractScope(decorator.expression.arguments[0]) : {};
+  }
+
+  /**
+   * Reads `scope: Scope.REQUEST` and `durable: true` from `@Injectable()`/`@Controller()` options or a
+   * provider object. Only the keys that are set are returned, so they can override the class's scope.
+   */
+  private extractScope(node: ts.Expression | undefined): Pick<ProviderMetadata, 'scope' | 'durable'> {
+    if (!node || !ts.isObjectLiteralExpression(node)) return {};
+
+    const scope = this.findPropertyAssignment(node, 'scope')?.initializer;
+    const durable = this.findPropertyAssignment(node, 'durable')?.initializer;
+    const name = scope && ts.isPropertyAccessExpression(scope) ? scope.name.text : undefined;
+
+    return {
+      ...(name && SCOPES.includes(name as ProviderScope) ? { scope: name as ProviderScope } : {}),
+      ...(durable ? { durable: durable.kind === ts.SyntaxKind.TrueKeyword } : {}),
     };
   }
 
-  private findClassDeclaration(className: string): ts.ClassDeclaration | undefined {
+  /**
+   * Lifecycle methods Nest calls on every instantiated provider, which keeps a provider useful even
+   * when nothing injects it.
+   */
+  private extractLifecycleHooks(node: ts.ClassDeclaration): string[] | undefined {
+    const hooks = node.members
+      .filter(ts.isMethodDeclaration)
+      .map((member) => member.name.getText())
+      .filter((name) => LIFECYCLE_HOOKS.includes(name));
+    return hooks.length ? hooks : undefined;
+  }
+
+  private extractMessaging(node: ts.ClassDeclaration): Pick<ProviderMetadata, 'consumes' | 'produces'> {
+    const consumes = [...this.extractCqrsHandlers(node), ...this.extractMessageHandlers(node)];
+    const produces = this.extractMessageProducers(node);
+    return { ...(consumes.length ? { consumes } : {}), ...(produces.length ? { produces } : {}) };
+  }
+
+  /**
+   * `@CommandHandler(CreateOrderCommand)`, `@QueryHandler(GetOrderQuery)` and
+   * `@EventsHandler(OrderCreatedEvent, ...)` on the class.
+   */
+  private extractCqrsHandlers(node: ts.ClassDeclaration): MessageEndpoint[] {
+    return Object.entries(CQRS_HANDLER_DECORATORS).flatMap(([name, kind]) => {
+      const decorator = this.findDecorator(node, name);
+      if (!decorator) return [];
+
+      return (decorator.expression as ts.CallExpression).arguments.map((argument) => ({
+        transport: 'cqrs' as const,
+        kind,
+        pattern: this.getPatternText(argument),
+        ...this.getLocation(decorator),
+      }));
+    });
+  }
+
+  /**
+   * `@MessagePattern()`, `@EventPattern()` and `@OnEvent()` methods. `@OnEvent()` also accepts a list of events.
+   */
+  private extractMessageHandlers(node: ts.ClassDeclaration): MessageEndpoint[] {
+    return node.members.filter(ts.isMethodDeclaration).flatMap((method) =>
+      Object.entries(HANDLER_DECORATORS).flatMap(([name, channel]) => {
+        const decorator = this.findDecorator(method, name);
+        const [pattern] = decorator ? (decorator.expression as ts.CallExpression).arguments : [];
+        if (!pattern) return [];
+
+        const patterns = ts.isArrayLiteralExpression(pattern) ? pattern.elements : [pattern];
+        return patterns.map((element) => ({
+          ...channel,
+          pattern: this.getPatternText(element),
+          method: method.name.getText(),
+          ...this.getLocation(decorator!),
+        }));
+      }),
+    );
+  }
+
+  /**
+   * Calls such as `this.client.send(pattern, data)`, `this.eventEmitter.emit('order.created', event)` or
+   * `this.commandBus.execute(new CreateOrderCommand())` anywhere in the class.
+   */
+  private extractMessageProducers(node: ts.ClassDeclaration): MessageEndpoint[] {
+    const produces: MessageEndpoint[] = [];
+    const visit = (child: ts.Node, method: string | undefined) => {
+      if (ts.isCallExpression(child) && ts.isPropertyAccessExpression(child.expression)) {
+        // Only look up the receiver type, which may need the type checker, for calls named like a producer
+        const { name, expression: receiver } = child.expression;
+        const calls = PRODUCER_CALLS.filter((candidate) => candidate.method === name.text);
+        const type = calls.length ? this.getReceiverType(node, receiver) : undefined;
+        const call = calls.find((candidate) => !!type && candidate.types.includes(type));
+
+        if (call && child.arguments[0]) {
+          const { transport, kind } = call;
+          this.getProducedPatterns(call, child.arguments[0]).forEach((pattern) =>
+            produces.push({ transport, kind, pattern, method, ...this.getLocation(child) }),
+          );
+        }
+      }
+      ts.forEachChild(child, (grandChild) => visit(grandChild, method));
+    };
+
+    node.members.forEach((member) =>
+      visit(member, member.name?.getText() ?? (ts.isConstructorDeclaration(member) ? 'constructor' : undefined)),
+    );
+    return produces;
+  }
+
+  /**
+   * CQRS buses take command, query and event instances, whose class is the pattern; `publishAll()` takes a list.
+   */
+  private getProducedPatterns(call: MessageChannel & { method: string }, argument: ts.Expression): string[] {
+    if (call.transport !== 'cqrs') return [this.getPatternText(argument)];
+
+    const expression = this.unwrapExpression(argument);
+    const instances = call.method === 'publishAll' && ts.isArrayLiteralExpression(expression) ? expression.elements : [expression];
+    return instances.flatMap((instance) => {
+      if (ts.isNewExpression(instance)) return [instance.expression.getText()];
+
+      const typeName = this.checker?.getTypeAtLocation(instance).getSymbol()?.getName();
+      return typeName && typeName !== '__type' ? [typeName] : [];
+    });
+  }
+
+  /**
+   * Declared type of `this.x` or `x`, looked up in the class's constructor parameters and properties,
+   * with the type checker as a fallback.
+   */
+  private getReceiverType(node: ts.ClassDeclaration, receiver: ts.Expression): string | undefined {
+    const name =
+      ts.isPropertyAccessExpression(receiver) && receiver.expression.kind === ts.SyntaxKind.ThisKeyword
+        ? receiver.name.text
+        : ts.isIdentifier(receiver)
+          ? receiver.text
+          : undefined;
+
+    const constructor = node.members.find(ts.isConstructorDeclaration);
+    const declaration = [...(constructor?.parameters ?? []), ...node.members.filter(ts.isPropertyDeclaration)].find(
+      (member) => member.name.getText() === name,
+    );
+    if (declaration?.type && ts.isTypeReferenceNode(declaration.type)) {
+      return declaration.type.typeName.getText().split('.').pop();
+    }
+
+    return this.checker?.getTypeAtLocation(receiver).getSymbol()?.getName();
+  }
+
+  /**
+   * Patterns as Nest matches them: strings (also from constants and enum members) as-is, and pattern
+   * objects such as `{ cmd: 'sum' }` serialized with sorted keys.
+   */
+  private getPatternText(node: ts.Expression): string {
+    const expression = this.unwrapExpression(node);
+
+    if (ts.isStringLiteralLike(expression) || ts.isNumericLiteral(expression)) {
+      return expression.text;
+    }
+
+    if (ts.isObjectLiteralExpression(expression)) {
+      const entries = expression.properties
+        .filter(ts.isPropertyAssignment)
+        .map((property) => [property.name.getText().replace(/^['"]|['"]$/g, ''), this.getPatternText(property.initializer)])
+        .sort(([a], [b]) => a.localeCompare(b));
+      return JSON.stringify(Object.fromEntries(entries));
+    }
+
+    if (ts.isIdentifier(expression)) {
+      const initializer = this.findVariable(expression)?.initializer;
+      const value = initializer && this.unwrapExpression(initializer);
+      if (value && (ts.isStringLiteralLike(value) || ts.isNumericLiteral(value) || ts.isObjectLiteralExpression(value))) {
+        return this.getPatternText(value);
+      }
+    }
+
+    // Enum members; `getConstantValue()` only knows the value of an access expression once it has been type-checked
+    if (ts.isPropertyAccessExpression(expression) && ts.isIdentifier(expression.name)) {
+      const member = this.resolveDeclarations(expression.name).find(ts.isEnumMember);
+      const value = member && this.checker?.getConstantValue(member);
+      if (value !== undefined) return String(value);
+    }
+
+    return expression.getText();
+  }
+
+  private findClassDeclaration(node: ts.Expression | undefined): ts.ClassDeclaration | undefined {
+    if (!node || !ts.isIdentifier(node)) return undefined;
+
+    const declaration = this.resolveDeclarations(node).find(ts.isClassDeclaration);
+    if (declaration) return declaration;
+
     return this.sourceFile.statements.find(
-      (stmt): stmt is ts.ClassDeclaration => ts.isClassDeclaration(stmt) && stmt.name?.text === className,
+      (stmt): stmt is ts.ClassDeclaration => ts.isClassDeclaration(stmt) && stmt.name?.text === node.text,
     );
   }
 
-  private extractConstructorDependencies(node: ts.ClassDeclaration): string[] {
+  /**
+   * Follows an identifier through import aliases, `paths` mappings and barrel re-exports
+   * to the declarations it ultimately refers to. Without a program only same-file
+   * lookups are possible, so this returns nothing.
+   */
+  private resolveDeclarations(identifier: ts.Identifier): ts.Declaration[] {
+    if (!this.checker) return [];
+
+    let symbol = this.checker.getSymbolAtLocation(identifier);
+    // Follow re-exports one hop at a time so that every barrel on the way is recorded as a reference
+    while (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+      this.recordReferences(symbol.declarations);
+      const next: ts.Symbol | undefined = this.checker.getImmediateAliasedSymbol(symbol);
+      symbol = next && next !== symbol ? next : this.checker.getAliasedSymbol(symbol);
+      if (!next) break;
+    }
+
+    this.recordReferences(symbol?.declarations);
+    return symbol?.declarations ?? [];
+  }
+
+  private recordReferences(declarations: ts.Declaration[] | undefined): void {
+    declarations?.forEach((declaration) => {
+      this.recordReference(declaration.getSourceFile());
+
+      // `export *` barrels are not aliases, so record the file an import or re-export points at as well
+      const statement = ts.findAncestor(declaration, (node) => ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) as
+        | ts.ImportDeclaration
+        | ts.ExportDeclaration
+        | undefined;
+      const target = statement?.moduleSpecifier && this.checker?.getSymbolAtLocation(statement.moduleSpecifier)?.valueDeclaration;
+      if (target && ts.isSourceFile(target)) this.recordReference(target);
+    });
+  }
+
+  private recordReference(sourceFile: ts.SourceFile): void {
+    if (!sourceFile.isDeclarationFile && sourceFile.fileName !== this.sourceFile.fileName) {
+      this.referencedFiles.add(sourceFile.fileName);
+    }
+  }
+
+  /**
+   * Collects constructor parameters and `@Inject()` properties. A parameter's token comes from
+   * `@Inject(token)` when present and from its type annotation otherwise; custom decorators such as
+   * `@InjectRepository(User)` are kept verbatim since the token they produce is only known at runtime.
+   */
+  private extractInjections(node: ts.ClassDeclaration): InjectionMetadata[] {
     const constructor = node.members.find(ts.isConstructorDeclaration);
-    if (!constructor) return [];
+    const parameters = (constructor?.parameters ?? []).flatMap((param, index) => {
+      const injection = this.parseInjectionTarget(param, param.type);
+      return injection ? [{ ...injection, kind: 'constructor' as const, index, ...this.getLocation(param) }] : [];
+    });
+
+    const properties = node.members.filter(ts.isPropertyDeclaration).flatMap((property) => {
+      if (!this.findDecorator(property, 'Inject')) return [];
+
+      const injection = this.parseInjectionTarget(property, property.type);
+      return injection
+        ? [{ ...injection, kind: 'property' as const, property: property.name.getText(), ...this.getLocation(property) }]
+        : [];
+    });
+
+    return [...parameters, ...properties];
+  }
+
+  private parseInjectionTarget(
+    node: ts.ParameterDeclaration | ts.PropertyDeclaration,
+    type: ts.TypeNode | undefined,
+  ): Omit<InjectionMetadata, 'kind'> | undefined {
+    const isOptional = this.hasDecorator(node, 'Optional');
+    const inject = this.findDecorator(node, 'Inject')?.expression as ts.CallExpression | undefined;
+    const [tokenArgument] = inject?.arguments ?? [];
+
+    if (tokenArgument) {
+      const forwardRefTarget = this.getForwardRefTarget(tokenArgument);
+      if (forwardRefTarget) {
+        return { token: forwardRefTarget.text, tokenKind: 'class', isOptional, isForwardReference: true };
+      }
+
+      return { ...this.resolveToken(tokenArgument), isOptional, isForwardReference: false };
+    }
+
+    const customDecorator = (ts.getDecorators(node) ?? []).find((decorator) => {
+      if (!ts.isCallExpression(decorator.expression)) return false;
+      return /^Inject.+/.test(decorator.expression.expression.getText());
+    });
+    if (customDecorator) {
+      return { token: customDecorator.expression.getText(), tokenKind: 'custom', isOptional, isForwardReference: false };
+    }
 
-    return constructor.parameters
-      .filter(
-        (param): param is ts.ParameterDeclaration & { type: ts.TypeReferenceNode } => !!param.type && ts.isTypeReferenceNode(param.type),
-      )
-      .map((param) => param.type.typeName.getText());
+    if (type && ts.isTypeReferenceNode(type)) {
+      return { token: type.typeName.getText(node.getSourceFile()), tokenKind: 'class', isOptional, isForwardReference: false };
+    }
+
+    return undefined;
   }
 
-  private isClassInjectable(className: string): boolean {
-    const classDecl = this.findClassDeclaration(className);
-    return classDecl ? this.hasDecorator(classDecl, 'Injectable') : false;
+  /**
+   * Normalizes an injection token the way Nest compares them: string constants collapse to their
+   * value, while classes and `Symbol()` constants are identified by their declaration name.
+   */
+  private resolveToken(node: ts.Expression): { token: string; tokenKind: TokenKind } {
+    if (ts.isStringLiteralLike(node)) {
+      return { token: node.text, tokenKind: 'string' };
+    }
+
+    if (!ts.isIdentifier(node)) {
+      return { token: node.getText(), tokenKind: 'constant' };
+    }
+
+    if (this.findClassDeclaration(node)) {
+      return { token: node.text, tokenKind: 'class' };
+    }
+
+    const variable = this.resolveDeclarations(node).find(ts.isVariableDeclaration) ?? this.findVariableDeclaration(node.text);
+    const initializer = variable?.initializer;
+
+    if (initializer && ts.isStringLiteralLike(initializer)) {
+      return { token: initializer.text, tokenKind: 'string' };
+    }
+
+    const isSymbolCall = !!initializer && ts.isCallExpression(initializer) && /^Symbol(\.for)?$/.test(initializer.expression.getText());
+    const isUniqueSymbol =
+      !!variable?.type && ts.isTypeOperatorNode(variable.type) && variable.type.operator === ts.SyntaxKind.UniqueKeyword;
+    if (isSymbolCall || isUniqueSymbol) {
+      return { token: node.text, tokenKind: 'symbol' };
+    }
+
+    return { token: node.text, tokenKind: 'constant' };
   }
 
-  private createUnknownImport(): ImportMetadata {
-    return {
-      name: `UnknownModule_${this.uniqueIdCounter++}`,
-      isAsync: false,
-      dependencies: [],
-    };
+  private findVariableDeclaration(name: string): ts.VariableDeclaration | undefined {
+    for (const stmt of this.sourceFile.statements) {
+      if (!ts.isVariableStatement(stmt)) continue;
+
+      const declaration = stmt.declarationList.declarations.find(
+        (variable) => ts.isIdentifier(variable.name) && variable.name.text === name,
+      );
+      if (declaration) return declaration;
+    }
+
+    return undefined;
+  }
+
+  private getForwardRefTarget(node: ts.Expression | undefined): ts.Identifier | undefined {
+    if (!node || !ts.isCallExpression(node)) return undefined;
+    if (!ts.isIdentifier(node.expression) || node.expression.text !== 'forwardRef') return undefined;
+
+    const arrowFunc = node.arguments[0];
+    if (!arrowFunc || !ts.isArrowFunction(arrowFunc) || !ts.isIdentifier(arrowFunc.body)) return undefined;
+
+    return arrowFunc.body;
+  }
+
+  /**
+   * 1-based line of a node in the file that declares it, which may differ from the module file
+   * when a provider or controller lives elsewhere.
+   */
+  private getLocation(node: ts.Node): { filePath: string; line: number } {
+    const sourceFile = node.getSourceFile();
+    return { filePath: sourceFile.fileName, line: sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1 };
   }
 
-  private createEmptyModuleMetadata(): ModuleMetadata {
+  /**
+   * The project variable an identifier is bound to, e.g. `const DatabaseModule = TypeOrmModule.forRoot()`,
+   * rather than a class. Declarations from compiled packages are left alone since their classes are
+   * declared as variables too.
+   */
+  private findVariable(identifier: ts.Identifier): ts.VariableDeclaration | undefined {
+    const declarations = this.resolveDeclarations(identifier);
+    if (declarations.length) {
+      return declarations.find(
+        (declaration): declaration is ts.VariableDeclaration =>
+          ts.isVariableDeclaration(declaration) && !declaration.getSourceFile().isDeclarationFile,
+      );
+    }
+
+    return this.findVariableDeclaration(identifier.text);
+  }
+
+  private report(code: DiagnosticCode, node: ts.Node, message: string): void {
+    const sourceFile = node.getSourceFile();
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+    this.diagnostics.push({ severity: 'warning', code, message, filePath: sourceFile.fileName, line: line + 1, column: character + 1 });
+  }
+
+  /**
+   * Source text of a node on one line, shortened so diagnostics stay readable.
+   */
+  private getSnippet(node: ts.Node): string {
+    const text = node.getText().replace(/\s+/g, ' ');
+    return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+  }
+
+  private createEmptyModuleMetadata(node: ts.ClassDeclaration): ModuleMetadata {
+    const name = node.name!.text;
+
     return {
-      name: this.generateUniqueName('Module'),
+      id: `${this.sourceFile.fileName}#${name}`,
+      name,
+      filePath: this.sourceFile.fileName,
+      line: this.getLocation(node).line,
       imports: [],
       exports: [],
+      reExports: [],
       providers: [],
       controllers: [],
     };
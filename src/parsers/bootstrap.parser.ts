@@ -0,0 +1,150 @@
+import * as ts from 'typescript';
+import { BootstrapMetadata, VersioningMetadata } from '../types/bootstrap.types';
+
+const GLOBAL_ENHANCER_METHODS = {
+  useGlobalGuards: 'guards',
+  useGlobalInterceptors: 'interceptors',
+  useGlobalPipes: 'pipes',
+  useGlobalFilters: 'filters',
+} as const;
+
+const FACTORY_METHODS = ['create', 'createMicroservice', 'createApplicationContext'] as const;
+
+export class BootstrapParser {
+  private readonly sourceFile: ts.SourceFile;
+  private readonly checker?: ts.TypeChecker;
+
+  constructor(sourceCode: string, fileName: string, program?: ts.Program) {
+    const programSourceFile = program?.getSourceFile(fileName);
+    this.sourceFile = programSourceFile ?? ts.createSourceFile(fileName, sourceCode, ts.ScriptTarget.Latest, true);
+    this.checker = programSourceFile ? program?.getTypeChecker() : undefined;
+  }
+
+  /**
+   * Reads application-wide settings from the bootstrap file (usually `main.ts`): the root module passed
+   * to `NestFactory`, the global prefix, versioning and enhancers registered through `app.useGlobal*()`.
+   */
+  public parse(): BootstrapMetadata | null {
+    if (!this.sourceFile.text.includes('NestFactory')) return null;
+
+    const metadata: BootstrapMetadata = {
+      filePath: this.sourceFile.fileName,
+      globalPrefixExclude: [],
+      enhancers: { guards: [], interceptors: [], pipes: [], filters: [] },
+    };
+
+    const visit = (node: ts.Node) => {
+      if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)) {
+        if (node.expression.expression.getText() === 'NestFactory') {
+          this.parseFactoryCall(node.expression.name.text, node.arguments, metadata);
+        } else {
+          this.parseAppCall(node.expression.name.text, node.arguments, metadata);
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(this.sourceFile);
+
+    return metadata;
+  }
+
+  private parseFactoryCall(method: string, args: ts.NodeArray<ts.Expression>, metadata: BootstrapMetadata): void {
+    const factoryMethod = FACTORY_METHODS.find((candidate) => candidate === method);
+    const [rootModule] = args;
+    if (!factoryMethod || metadata.rootModule || !rootModule || !ts.isIdentifier(rootModule)) return;
+
+    metadata.factoryMethod = factoryMethod;
+    metadata.rootModule = rootModule.text;
+    metadata.rootModulePath = this.resolveDeclarationFile(rootModule);
+  }
+
+  private parseAppCall(method: string, args: ts.NodeArray<ts.Expression>, metadata: BootstrapMetadata): void {
+    if (method === 'setGlobalPrefix' && args[0] && ts.isStringLiteralLike(args[0])) {
+      metadata.globalPrefix = args[0].text;
+      metadata.globalPrefixExclude = this.parseGlobalPrefixExclude(args[1]);
+      return;
+    }
+
+    if (method === 'enableVersioning') {
+      metadata.versioning = this.parseVersioning(args[0]);
+      return;
+    }
+
+    if (method in GLOBAL_ENHANCER_METHODS) {
+      const kind = GLOBAL_ENHANCER_METHODS[method as keyof typeof GLOBAL_ENHANCER_METHODS];
+      metadata.enhancers[kind].push(...args.map((argument) => this.getEnhancerName(argument)));
+    }
+  }
+
+  private resolveDeclarationFile(identifier: ts.Identifier): string | undefined {
+    let symbol = this.checker?.getSymbolAtLocation(identifier);
+    if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+      symbol = this.checker?.getAliasedSymbol(symbol);
+    }
+
+    return symbol?.declarations?.[0]?.getSourceFile().fileName;
+  }
+
+  private parseGlobalPrefixExclude(options: ts.Expression | undefined): string[] {
+    if (!options || !ts.isObjectLiteralExpression(options)) return [];
+
+    const exclude = this.findPropertyAssignment(options, 'exclude');
+    if (!exclude || !ts.isArrayLiteralExpression(exclude.initializer)) return [];
+
+    return exclude.initializer.elements.flatMap((element) => {
+      if (ts.isStringLiteralLike(element)) return [element.text];
+
+      // { path: 'health', method: RequestMethod.GET }
+      const path = ts.isObjectLiteralExpression(element) ? this.findPropertyAssignment(element, 'path')?.initializer : undefined;
+      return path && ts.isStringLiteralLike(path) ? [path.text] : [];
+    });
+  }
+
+  private parseVersioning(options: ts.Expression | undefined): VersioningMetadata {
+    const versioning: VersioningMetadata = { type: 'URI' };
+    if (!options || !ts.isObjectLiteralExpression(options)) return versioning;
+
+    const type = this.findPropertyAssignment(options, 'type')?.initializer;
+    if (type) {
+      const typeName = type.getText().split('.').pop()?.toUpperCase();
+      if (typeName === 'HEADER' || typeName === 'MEDIA_TYPE' || typeName === 'CUSTOM') {
+        versioning.type = typeName;
+      }
+    }
+
+    const prefix = this.findPropertyAssignment(options, 'prefix')?.initializer;
+    if (prefix && ts.isStringLiteralLike(prefix)) {
+      versioning.prefix = prefix.text;
+    } else if (prefix?.kind === ts.SyntaxKind.FalseKeyword) {
+      versioning.prefix = '';
+    }
+
+    const defaultVersion = this.findPropertyAssignment(options, 'defaultVersion')?.initializer;
+    if (defaultVersion) {
+      versioning.defaultVersion = ts.isArrayLiteralExpression(defaultVersion)
+        ? defaultVersion.elements.map((element) => this.getVersionValue(element))
+        : [this.getVersionValue(defaultVersion)];
+    }
+
+    return versioning;
+  }
+
+  private getVersionValue(node: ts.Expression): string {
+    return ts.isStringLiteralLike(node) ? node.text : node.getText();
+  }
+
+  private getEnhancerName(node: ts.Expression): string {
+    if (ts.isNewExpression(node) || ts.isCallExpression(node)) {
+      return node.expression.getText();
+    }
+
+    return node.getText();
+  }
+
+  private findPropertyAssignment(node: ts.ObjectLiteralExpression, propertyName: string): ts.PropertyAssignment | undefined {
+    return node.properties.find(
+      (prop): prop is ts.PropertyAssignment =>
+        ts.isPropertyAssignment(prop) && ts.isIdentifier(prop.name) && prop.name.text === propertyName,
+    );
+  }
+}
@@ -0,0 +1,152 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { DependencyAnalyzer } from '../analyzers/dependency.analyzer';
+import { GraphBuilder } from '../graph/graph.builder';
+import { AnalyzerConfig } from '../types/config.types';
+import { ControllerMetadata, ModuleMetadata } from '../types/modules.types';
+
+/** A module entry of a snapshot written before the versioned graph format, in any of its past shapes. */
+type LegacyModuleEntry = Partial<Omit<ModuleMetadata, 'controllers'>> & { controllers?: (string | ControllerMetadata)[] };
+
+export class SnapshotLoader {
+  constructor(
+    private readonly basePath: string,
+    private readonly options: AnalyzerConfig = {},
+  ) {}
+
+  /**
+   * Loads the module graph for a diff side: a JSON file written by `analyze -f json`, a git ref, or the
+   * working tree when no source is given. Every side goes through the reachability and external module
+   * filters of `analyze`, so a snapshot is not compared against modules it left out.
+   */
+  public async load(source?: string): Promise<Map<string, ModuleMetadata>> {
+    return this.filter(await this.loadUnfiltered(source));
+  }
+
+  private async loadUnfiltered(source?: string): Promise<Map<string, ModuleMetadata>> {
+    if (!source) {
+      return new DependencyAnalyzer(this.basePath, undefined, this.options).analyze(this.options.root);
+    }
+
+    if (source.endsWith('.json') && (await this.isFile(source))) {
+      return this.loadJson(source);
+    }
+
+    return this.loadRevision(source);
+  }
+
+  private filter(modules: Map<string, ModuleMetadata>): Map<string, ModuleMetadata> {
+    const { depth = Infinity, includeUnreachable } = this.options.output ?? {};
+    const reachable = DependencyAnalyzer.filterReachable(modules, depth, includeUnreachable);
+    return DependencyAnalyzer.filterExternals(reachable, this.options.ignoreExternals ?? []);
+  }
+
+  private async loadJson(filePath: string): Promise<Map<string, ModuleMetadata>> {
+    const content = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    if (content.schemaVersion) {
+      return GraphBuilder.restore(content);
+    }
+
+    // Snapshots written before the versioned graph format are module entries; workspace snapshots wrap the module entries in `{ apps, libraries, modules }`
+    const entries: [string, LegacyModuleEntry][] = Array.isArray(content) ? content : content.modules;
+    if (!Array.isArray(entries)) {
+      throw new Error(`${filePath} is not a snapshot written by "analyze -f json"`);
+    }
+    return this.upgradeEntries(entries);
+  }
+
+  /**
+   * Brings module entries into the current shape. The first releases keyed modules by class name and
+   * wrote neither `id` nor `reExports`, listed controllers by name only and did not link imports to the
+   * imported module. Ids are rebuilt from the file path the same way DependencyAnalyzer builds them, so
+   * they match the other side when the snapshot was written for the same project path.
+   */
+  private upgradeEntries(entries: [string, LegacyModuleEntry][]): Map<string, ModuleMetadata> {
+    const ids = new Map(
+      entries.map(([key, entry]) => [entry.name ?? key, entry.id ?? this.getLegacyId(entry.name ?? key, entry.filePath)]),
+    );
+
+    return new Map(
+      entries.map(([key, entry]) => {
+        const name = entry.name ?? key;
+        const id = ids.get(name)!;
+        const module: ModuleMetadata = {
+          ...entry,
+          id,
+          name,
+          imports: (entry.imports ?? []).map((imp) => (imp.moduleId || !ids.has(imp.name) ? imp : { ...imp, moduleId: ids.get(imp.name) })),
+          exports: entry.exports ?? [],
+          reExports: entry.reExports ?? [],
+          providers: entry.providers ?? [],
+          controllers: (entry.controllers ?? []).map((controller) =>
+            typeof controller === 'string' ? { name: controller, path: '', dependencies: [] } : controller,
+          ),
+        };
+        return [id, module];
+      }),
+    );
+  }
+
+  private getLegacyId(name: string, filePath: string | undefined): string {
+    if (!filePath) return name;
+    return `${path.relative(path.resolve(this.basePath), path.resolve(filePath)).split(path.sep).join('/')}#${name}`;
+  }
+
+  /**
+   * Checks the revision out into a temporary git worktree (no network access needed) and analyzes the
+   * same project directory inside it, so module ids match those of the other side. A configured
+   * tsconfig inside the repository is read from the worktree as well.
+   */
+  private async loadRevision(ref: string): Promise<Map<string, ModuleMetadata>> {
+    const root = this.git(['rev-parse', '--show-toplevel'], this.basePath).trim();
+    try {
+      this.git(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], root);
+    } catch {
+      throw new Error(`"${ref}" is neither a JSON snapshot nor a git revision`);
+    }
+
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'nestjs-analyzer-'));
+    const worktree = path.join(tempDir, 'worktree');
+    try {
+      this.git(['worktree', 'add', '--detach', worktree, ref], root);
+      const tsconfig = this.options.tsconfig && path.resolve(this.basePath, this.options.tsconfig);
+      const options = {
+        ...this.options,
+        ...(tsconfig && !path.relative(root, tsconfig).startsWith('..')
+          ? { tsconfig: path.join(worktree, path.relative(root, tsconfig)) }
+          : {}),
+      };
+      return await new DependencyAnalyzer(
+        path.join(worktree, path.relative(root, path.resolve(this.basePath))),
+        undefined,
+        options,
+      ).analyze(this.options.root);
+    } finally {
+      try {
+        this.git(['worktree', 'remove', '--force', worktree], root);
+      } catch {
+        // The worktree was never created; nothing to unregister
+      }
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  private git(args: string[], cwd: string): string {
+    try {
+      return execFileSync('git', args, { cwd, encoding: 'utf8', stdio: ['ignore', 'pipe', 'pipe'] });
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim();
+      throw new Error(`git ${args.join(' ')} failed${stderr ? `: ${stderr}` : ''}`);
+    }
+  }
+
+  private async isFile(filePath: string): Promise<boolean> {
+    try {
+      return (await fs.stat(filePath)).isFile();
+    } catch {
+      return false;
+    }
+  }
+}
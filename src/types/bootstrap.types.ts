@@ -0,0 +1,18 @@
+import { EnhancerMetadata } from './modules.types';
+
+export interface BootstrapMetadata {
+  filePath: string;
+  factoryMethod?: 'create' | 'createMicroservice' | 'createApplicationContext';
+  rootModule?: string;
+  rootModulePath?: string;
+  globalPrefix?: string;
+  globalPrefixExclude: string[];
+  versioning?: VersioningMetadata;
+  enhancers: EnhancerMetadata;
+}
+
+export interface VersioningMetadata {
+  type: 'URI' | 'HEADER' | 'MEDIA_TYPE' | 'CUSTOM';
+  prefix?: string;
+  defaultVersion?: string[];
+}
@@ -0,0 +1,19 @@
+import { BootstrapMetadata } from './bootstrap.types';
+import { Diagnostic } from './diagnostics.types';
+import { ModuleMetadata } from './modules.types';
+
+export interface CacheEntry<T> {
+  hash: string;
+  /** Content hashes of the other files the parse result was derived from. */
+  dependencies: Record<string, string>;
+  result: T | null;
+  diagnostics?: Diagnostic[];
+}
+
+export interface CacheFile {
+  version: number;
+  /** Hash of the tsconfig and tool version; a mismatch invalidates every entry. */
+  configHash: string;
+  modules: Record<string, CacheEntry<ModuleMetadata>>;
+  bootstraps: Record<string, CacheEntry<BootstrapMetadata>>;
+}
@@ -0,0 +1,56 @@
+import { MetricThresholds } from './metrics.types';
+import { ArchitectureRule } from './rules.types';
+
+/**
+ * Which files are analyzed and how their modules are recognized. Every command reads these from the
+ * config file.
+ */
+export interface ProjectOptions {
+  /** Globs of files to analyze, relative to the project path (default: every file below it). */
+  include?: string[];
+  /** Globs of files and directories to skip, relative to the project path; node_modules, dist and coverage are always skipped. */
+  exclude?: string[];
+  /** Regular expression module file names must match (default: `\.module\.ts$`). */
+  modulePattern?: string;
+  /** Globs of `@Module()` class names to ignore (default: `*Unknown*` and `*Angular*`). */
+  ignoreModuleClasses?: string[];
+  /** tsconfig used to resolve imports, relative to the config file (default: the nearest tsconfig.json). */
+  tsconfig?: string;
+}
+
+/** Defaults of the `analyze` options; flags given on the command line win. */
+export interface OutputConfig {
+  format?: string;
+  /** Output file, relative to the config file. */
+  file?: string;
+  depth?: number;
+  includeUnreachable?: boolean;
+  strict?: boolean;
+  cache?: boolean;
+  collapseProviders?: boolean;
+}
+
+export interface AnalyzerConfig extends ProjectOptions {
+  /** Root module to walk imports from (default: the modules passed to NestFactory). */
+  root?: string;
+  /**
+   * Globs of external modules to leave out of the `analyze` output, matched against the package they
+   * are imported from (e.g. `@nestjs/*`) and the module class name (e.g. `TypeOrmModule`).
+   */
+  ignoreExternals?: string[];
+  output?: OutputConfig;
+  /** Architecture rules for `check`; a `--rules` file wins, and nestjs-analyzer.rules.json is only read without them. */
+  rules?: ArchitectureRule[];
+  /**
+   * Paths to modules exporting a VisualizerDefinition, relative to the config file.
+   */
+  visualizers?: string[];
+  metrics?: {
+    /** Maximum allowed value per metric; the `metrics` command fails when one is exceeded. */
+    thresholds?: MetricThresholds;
+  };
+  unused?: {
+    /** Globs of tokens used without being injected, e.g. resolved with `moduleRef.get()`. */
+    entryPoints?: string[];
+  };
+}
@@ -0,0 +1,18 @@
+export type CycleGraph = 'module' | 'provider';
+
+export interface CycleEdge {
+  from: string;
+  to: string;
+  isForwardReference: boolean;
+}
+
+export interface CycleReport {
+  graph: CycleGraph;
+  members: string[];
+  /** Shortest loop through the component; for unguarded cycles it runs through a missing forwardRef. */
+  path: CycleEdge[];
+  /** True when every edge inside the component uses forwardRef. */
+  isGuarded: boolean;
+  /** Edges inside the component without forwardRef. */
+  unguardedEdges: CycleEdge[];
+}
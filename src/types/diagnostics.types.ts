@@ -0,0 +1,30 @@
+export type DiagnosticSeverity = 'error' | 'warning';
+
+/**
+ * `unreadable-file` and `parse-error` mean a file was left out of the analysis; the `unsupported-*`
+ * codes mark metadata the parser skipped because it cannot evaluate it statically.
+ */
+export type DiagnosticCode =
+  | 'unreadable-file'
+  | 'parse-error'
+  | 'unsupported-module'
+  | 'unsupported-metadata'
+  | 'unsupported-import'
+  | 'unsupported-provider'
+  | 'unsupported-controller'
+  | 'unsupported-export'
+  | 'unresolved-dependency'
+  | 'circular-import'
+  | 'circular-injection';
+
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  message: string;
+  /** Name of the module whose metadata the diagnostic is about. */
+  module?: string;
+  filePath?: string;
+  /** 1-based line and column of the construct. */
+  line?: number;
+  column?: number;
+}
@@ -0,0 +1,23 @@
+import { CycleReport } from './cycles.types';
+
+export type ChangeKind = 'added' | 'removed';
+
+export interface DiffEntry {
+  change: ChangeKind;
+  /** Id of the module the entry belongs to. */
+  module: string;
+  /** Display text, e.g. `AuthModule -> JwtModule` for an import. */
+  name: string;
+  /** For import entries, the id (or name for external modules) of the imported module. */
+  target?: string;
+}
+
+export interface GraphDiff {
+  modules: DiffEntry[];
+  imports: DiffEntry[];
+  providers: DiffEntry[];
+  exports: DiffEntry[];
+  injections: DiffEntry[];
+  newCycles: CycleReport[];
+  resolvedCycles: CycleReport[];
+}
@@ -0,0 +1,111 @@
+import { CycleReport } from './cycles.types';
+import { Diagnostic } from './diagnostics.types';
+import {
+  ControllerMetadata,
+  DynamicModuleMetadata,
+  ImportMetadata,
+  MessageKind,
+  MessageTransport,
+  ModuleMetadata,
+  ProviderMetadata,
+} from './modules.types';
+import { WorkspaceMetadata } from './workspace.types';
+
+/**
+ * Graph returned by `analyzeProject()` and written by `analyze -f json`, described by
+ * `schema/project-graph.schema.json`. Every node and edge appears once; file paths are relative to
+ * the analyzed project and use forward slashes.
+ */
+export interface ProjectGraph {
+  /** Semver of the schema: the major version changes whenever a field is removed or changes meaning. */
+  schemaVersion: string;
+  /** Ids of the root modules the graph was walked from. */
+  roots: string[];
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  cycles: CycleReport[];
+  /** Skipped files and metadata, unresolved dependencies and circular dependencies. */
+  diagnostics: Diagnostic[];
+  workspace?: WorkspaceMetadata;
+}
+
+export type GraphNode = ModuleNode | ExternalModuleNode | ProviderNode | ControllerNode;
+
+export interface ModuleNode extends Omit<ModuleMetadata, 'imports' | 'providers' | 'controllers'> {
+  kind: 'module';
+}
+
+/** A module imported from a package or outside the analyzed files, e.g. `TypeOrmModule`. */
+export interface ExternalModuleNode {
+  kind: 'external-module';
+  id: string;
+  name: string;
+  /** Package the module is imported from, e.g. `@nestjs/typeorm`. */
+  package?: string;
+}
+
+export interface ProviderNode extends ProviderMetadata {
+  kind: 'provider';
+  id: string;
+  /** Id of the module registering the provider. */
+  module: string;
+  token: string;
+}
+
+export interface ControllerNode extends ControllerMetadata {
+  kind: 'controller';
+  id: string;
+  module: string;
+}
+
+export type GraphEdge = ImportEdge | MemberEdge | ExportEdge | InjectionEdge | MessageEdge;
+
+export interface GraphImport extends Omit<ImportMetadata, 'module' | 'path' | 'dynamic'> {
+  dynamic?: Omit<DynamicModuleMetadata, 'imports'> & { imports: GraphImport[] };
+}
+
+/** Module to module (or external module) import; `import` keeps the metadata of the `imports` entry. */
+export interface ImportEdge {
+  kind: 'imports';
+  from: string;
+  to: string;
+  import: GraphImport;
+  /** Source text of the condition for conditional entries such as `...(env.FEATURE_X ? [X] : [])`. */
+  condition?: string;
+}
+
+/** Module to the providers and controllers it registers. */
+export interface MemberEdge {
+  kind: 'provides' | 'declares';
+  from: string;
+  to: string;
+  condition?: string;
+}
+
+/** Module to an exported provider, or to a re-exported module. */
+export interface ExportEdge {
+  kind: 'exports';
+  from: string;
+  to: string;
+}
+
+/** Provider or controller to the provider that Nest resolves an injected token to. */
+export interface InjectionEdge {
+  kind: 'injects';
+  from: string;
+  to: string;
+  token: string;
+  isOptional: boolean;
+  isForwardReference: boolean;
+}
+
+/** Provider or controller sending, emitting or executing something that the target provider or controller handles. */
+export interface MessageEdge {
+  kind: 'messages';
+  from: string;
+  to: string;
+  transport: MessageTransport;
+  messageKind: MessageKind;
+  /** Pattern, event name or command/query class as sent by the producer. */
+  pattern: string;
+}
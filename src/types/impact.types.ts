@@ -0,0 +1,36 @@
+import { ProviderDependent } from './modules.types';
+
+/** A provider or controller affected by the change, with what injects it in turn. */
+export interface ImpactNode extends ProviderDependent {
+  /** Routes of a controller, e.g. `GET /users/:id`. */
+  routes?: string[];
+  dependents: ImpactNode[];
+  /** Already listed earlier in the tree; its dependents are not repeated. */
+  isRepeated?: boolean;
+}
+
+/** A module that can no longer inject `token` once `exportedBy` stops exporting it. */
+export interface VisibilityLoss {
+  module: string;
+  moduleId: string;
+  token: string;
+  exportedBy: string;
+  /** Providers and controllers of the module injecting the token; empty when it is visible but unused. */
+  injectedBy: string[];
+}
+
+export interface ImpactReport {
+  target: string;
+  kind: 'provider' | 'module';
+  /** Modules registering the provider, or the module itself. */
+  definedIn: string[];
+  /** Tokens the dependents were collected for: the provider, or the providers a module exports. */
+  tokens: string[];
+  dependents: ImpactNode[];
+  /** Modules importing the target module, directly or transitively. */
+  importers: string[];
+  /** Ids of the modules containing an affected provider or controller, or importing the target module. */
+  modules: string[];
+  routes: string[];
+  visibilityLoss: VisibilityLoss[];
+}
@@ -0,0 +1,41 @@
+import { MessageKind, MessageTransport } from './modules.types';
+
+/** Provider or controller sending or handling a message. */
+export interface MessageParticipant {
+  kind: 'provider' | 'controller';
+  /** Provider token or controller name. */
+  name: string;
+  module: string;
+  moduleId: string;
+  method?: string;
+  filePath?: string;
+  line?: number;
+}
+
+/** Everything sending and handling one pattern, event, command or query. */
+export interface MessageChannel {
+  transport: MessageTransport;
+  kind: MessageKind;
+  pattern: string;
+  producers: MessageParticipant[];
+  /** Handlers, including `@OnEvent()` wildcard handlers matching the pattern. */
+  consumers: MessageParticipant[];
+}
+
+export interface MessageFlow {
+  transport: MessageTransport;
+  kind: MessageKind;
+  /** Pattern as sent by the producer. */
+  pattern: string;
+  from: MessageParticipant;
+  to: MessageParticipant;
+}
+
+export interface MessagingReport {
+  channels: MessageChannel[];
+  flows: MessageFlow[];
+  /** Patterns sent or emitted that no handler in the project consumes. */
+  unhandled: MessageChannel[];
+  /** Handlers of patterns nothing in the project sends or emits. */
+  unemitted: MessageChannel[];
+}
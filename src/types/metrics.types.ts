@@ -0,0 +1,52 @@
+export interface ModuleMetrics {
+  id: string;
+  name: string;
+  filePath?: string;
+  /** Ca: number of modules importing this module. */
+  afferent: number;
+  /** Ce: number of modules (including external ones) this module imports. */
+  efferent: number;
+  /** Ce / (Ca + Ce): 0 is maximally stable, 1 maximally unstable. */
+  instability: number;
+  /** Shortest import distance from the root module; undefined when not reachable from it. */
+  depth?: number;
+  providers: number;
+  controllers: number;
+  /** Number of modules in the transitive import closure, excluding the module itself. */
+  closure: number;
+  score: number;
+}
+
+export interface ProviderMetrics {
+  token: string;
+  module: string;
+  /** Providers and controllers that inject this provider. */
+  fanIn: number;
+  /** Tokens this provider injects. */
+  fanOut: number;
+  score: number;
+}
+
+export type ModuleMetric = 'afferent' | 'efferent' | 'instability' | 'depth' | 'providers' | 'closure';
+export type ProviderMetric = 'fanIn' | 'fanOut';
+
+export type MetricThresholds = Partial<Record<ModuleMetric | ProviderMetric, number>>;
+
+export interface ThresholdViolation {
+  metric: ModuleMetric | ProviderMetric;
+  subject: string;
+  filePath?: string;
+  value: number;
+  max: number;
+}
+
+export interface MetricsReport {
+  root?: string;
+  modules: ModuleMetrics[];
+  providers: ProviderMetrics[];
+  hotspots: {
+    modules: ModuleMetrics[];
+    providers: ProviderMetrics[];
+  };
+  violations: ThresholdViolation[];
+}
@@ -1,35 +1,166 @@
 export interface ModuleMetadata {
+  id: string;
   name: string;
   filePath?: string;
+  line?: number;
+  isGlobal?: boolean;
+  /** Whether the module is imported, directly or indirectly, by a root module; undefined when no root is known. */
+  isReachable?: boolean;
+  /** Shortest import distance from the nearest root module. */
+  depth?: number;
   imports: ImportMetadata[];
   exports: string[];
+  reExports: string[];
   providers: ProviderMetadata[];
-  controllers: string[];
+  controllers: ControllerMetadata[];
+  configurable?: ConfigurableModuleMetadata;
+  exportedProviders?: string[];
+  visibleProviders?: VisibleProvider[];
 }
 
 export interface ImportMetadata {
   name: string;
   path?: string;
+  /** Package a module that is not declared in the project is imported from, e.g. `@nestjs/config`. */
+  package?: string;
+  line?: number;
+  moduleId?: string;
   isAsync?: boolean;
   dependencies?: string[];
   isForwardReference?: boolean;
+  /** Condition of a conditional entry, e.g. `env.FEATURE_X` for `...(env.FEATURE_X ? [X] : [])`. */
+  condition?: string;
   module?: Partial<ModuleMetadata>;
+  dynamic?: DynamicModuleMetadata;
 }
 
+export interface DynamicModuleMetadata {
+  method: string;
+  isAsync: boolean;
+  features: string[];
+  imports: ImportMetadata[];
+  inject: string[];
+  useClass?: string;
+  useExisting?: string;
+  useFactory?: string;
+}
+
+export interface ConfigurableModuleMetadata {
+  classMethodName: string;
+  factoryClassMethodName: string;
+  optionsToken?: string;
+}
+
+export type ProviderScope = 'DEFAULT' | 'REQUEST' | 'TRANSIENT';
+
+export type TokenKind = 'class' | 'string' | 'symbol' | 'constant' | 'custom';
+
 export interface ProviderMetadata {
   name: string;
-  type: 'class' | 'value' | 'factory';
+  type: 'class' | 'value' | 'factory' | 'existing';
   dependencies: string[];
   isInjectable: boolean;
   provide?: string;
+  tokenKind?: TokenKind;
   useClass?: string;
   useValue?: any;
   useFactory?: string;
+  useExisting?: string;
   inject?: string[];
+  injections?: InjectionMetadata[];
+  /** Line of the entry in the module's `providers` array. */
+  line?: number;
+  /** Condition under which the entry is registered, see `ImportMetadata.condition`. */
+  condition?: string;
+  lifecycleHooks?: string[];
+  /** Scope declared on the provider object or in `@Injectable()`. */
+  scope?: ProviderScope;
+  durable?: boolean;
+  /** Message patterns, events, commands and queries the class handles. */
+  consumes?: MessageEndpoint[];
+  /** Message patterns, events, commands and queries the class sends, emits or executes. */
+  produces?: MessageEndpoint[];
+}
+
+export interface InjectionMetadata {
+  token: string;
+  tokenKind: TokenKind;
+  kind: 'constructor' | 'property' | 'factory' | 'existing';
+  index?: number;
+  property?: string;
+  isOptional: boolean;
+  isForwardReference: boolean;
+  resolvedTo?: string;
+  filePath?: string;
+  line?: number;
 }
 
 export interface ControllerMetadata {
   name: string;
   path: string;
   dependencies: string[];
+  injections?: InjectionMetadata[];
+  version?: string[];
+  enhancers?: EnhancerMetadata;
+  routes?: RouteMetadata[];
+  scope?: ProviderScope;
+  durable?: boolean;
+  /** Line of the entry in the module's `controllers` array. */
+  line?: number;
+  condition?: string;
+  consumes?: MessageEndpoint[];
+  produces?: MessageEndpoint[];
+}
+
+export type MessageTransport = 'microservice' | 'event-emitter' | 'cqrs';
+
+export type MessageKind = 'message' | 'event' | 'command' | 'query';
+
+/**
+ * One side of a message: a `@MessagePattern()`/`@EventPattern()`/`@OnEvent()` handler or CQRS handler,
+ * or a `ClientProxy`, `EventEmitter2`, `CommandBus`, `QueryBus` or `EventBus` call.
+ */
+export interface MessageEndpoint {
+  transport: MessageTransport;
+  kind: MessageKind;
+  /** Pattern string, pattern object serialized with sorted keys, or the command, query or event class. */
+  pattern: string;
+  /** Handler method, or the method containing the call. */
+  method?: string;
+  filePath?: string;
+  line?: number;
+}
+
+export interface RouteMetadata {
+  method: string;
+  path: string;
+  handler: string;
+  version?: string[];
+  enhancers: EnhancerMetadata;
+}
+
+export interface EnhancerMetadata {
+  guards: string[];
+  interceptors: string[];
+  pipes: string[];
+  filters: string[];
+}
+
+/** Provider or controller injecting a token; the reverse of `dependencies`. */
+export interface ProviderDependent {
+  kind: 'provider' | 'controller';
+  /** Provider token or controller name. */
+  name: string;
+  module: string;
+  moduleId: string;
+}
+
+export interface VisibleProvider {
+  token: string;
+  source: 'local' | 'import' | 'global';
+  /** Name of the module providing the token. */
+  providedBy: string;
+  /** Id of the module providing the token; names are not unique across the apps of a monorepo. */
+  providedById: string;
+  via: string[];
 }
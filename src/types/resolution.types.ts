@@ -0,0 +1,13 @@
+export type ResolutionSeverity = 'error' | 'warning';
+
+export interface ResolutionIssue {
+  severity: ResolutionSeverity;
+  module: string;
+  filePath?: string;
+  consumer: string;
+  consumerType: 'provider' | 'controller';
+  token: string;
+  index?: number;
+  message: string;
+  suggestion?: string;
+}
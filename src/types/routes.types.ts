@@ -0,0 +1,19 @@
+export type EnhancerLevel = 'global' | 'controller' | 'method';
+
+export interface EnhancerBinding {
+  name: string;
+  level: EnhancerLevel;
+}
+
+export interface ResolvedRoute {
+  method: string;
+  path: string;
+  version?: string;
+  module: string;
+  controller: string;
+  handler: string;
+  guards: EnhancerBinding[];
+  interceptors: EnhancerBinding[];
+  pipes: EnhancerBinding[];
+  filters: EnhancerBinding[];
+}
@@ -0,0 +1,61 @@
+export type RuleSeverity = 'error' | 'warning';
+
+/**
+ * Module selectors are globs. A pattern containing `/` matches the module's file path relative to the
+ * project root; any other pattern matches the module class name (e.g. `*Module`, `SharedModule`).
+ */
+export type ModuleSelector = string | string[];
+
+interface BaseRule {
+  name?: string;
+  severity?: RuleSeverity;
+  description?: string;
+}
+
+export interface ForbiddenImportRule extends BaseRule {
+  type: 'forbidden-import';
+  from: ModuleSelector;
+  to: ModuleSelector;
+}
+
+export interface AllowedImportsRule extends BaseRule {
+  type: 'allowed-imports';
+  from: ModuleSelector;
+  allow: ModuleSelector;
+  /** Also check imports of modules outside the analyzed project, such as `TypeOrmModule`. */
+  includeExternal?: boolean;
+}
+
+export interface MaxImportersRule extends BaseRule {
+  type: 'max-importers';
+  max: number;
+  modules?: ModuleSelector;
+  except?: ModuleSelector;
+}
+
+export interface CrossFeatureInjectionRule extends BaseRule {
+  type: 'no-cross-feature-injection';
+  /** Glob of feature root directories, one `*` segment per feature, e.g. `src/features/*`. */
+  features: string;
+  /** Globs of guarded injection tokens. Defaults to repositories. */
+  tokens?: string[];
+}
+
+export type ArchitectureRule = ForbiddenImportRule | AllowedImportsRule | MaxImportersRule | CrossFeatureInjectionRule;
+
+export interface RulesConfig {
+  rules: ArchitectureRule[];
+}
+
+export interface RuleViolation {
+  rule: string;
+  severity: RuleSeverity;
+  module: string;
+  message: string;
+  filePath?: string;
+  line?: number;
+}
+
+export interface RuleBaseline {
+  violations: Pick<RuleViolation, 'rule' | 'filePath' | 'message'>[];
+}
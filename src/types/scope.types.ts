@@ -0,0 +1,21 @@
+import { ProviderScope } from './modules.types';
+
+export interface ScopedConsumer {
+  /** Provider token or controller name. */
+  name: string;
+  kind: 'provider' | 'controller';
+  module: string;
+  moduleId: string;
+  /** Effective scope: the declared one, or REQUEST when a dependency is request-scoped. */
+  scope: Exclude<ProviderScope, 'DEFAULT'>;
+  declaredScope?: ProviderScope;
+  /** True when the consumer only became request-scoped through its dependencies. */
+  isImplicit: boolean;
+  durable: boolean;
+  /** Injected token that made an implicitly request-scoped consumer request-scoped. */
+  cause?: string;
+  /** Injected tokens from the consumer down to the provider that is request-scoped by declaration. */
+  chain: string[];
+  filePath?: string;
+  line?: number;
+}
@@ -0,0 +1,73 @@
+import { ControllerMetadata, ImportMetadata, ProviderMetadata } from './modules.types';
+import { ResolutionSeverity } from './resolution.types';
+
+export type TestingOverrideKind = 'provider' | 'guard' | 'interceptor' | 'pipe' | 'filter' | 'module';
+
+/** `.overrideProvider(X).useValue(...)` and the other `override*()` calls chained on the testing module builder. */
+export interface TestingOverride {
+  kind: TestingOverrideKind;
+  /** Overridden token, enhancer or module. */
+  token: string;
+  method: 'useValue' | 'useClass' | 'useFactory' | 'useModule';
+  /** Class or module passed to `useClass()` or `useModule()`. */
+  replacement?: string;
+  line: number;
+}
+
+/** Metadata of one `Test.createTestingModule()` call, parsed like the `@Module()` decorator. */
+export interface TestingModuleMetadata {
+  filePath: string;
+  line: number;
+  /** Title of the enclosing `describe()` block. */
+  suite?: string;
+  imports: ImportMetadata[];
+  providers: ProviderMetadata[];
+  controllers: ControllerMetadata[];
+  overrides: TestingOverride[];
+}
+
+export interface MockedProvider {
+  token: string;
+  /** `useValue`, `useFactory` or `useClass` provider object in the test, or an `override*()` call. */
+  via: 'useValue' | 'useFactory' | 'useClass' | 'override';
+  kind: TestingOverrideKind;
+}
+
+export interface MissingTestDependency {
+  severity: ResolutionSeverity;
+  consumer: string;
+  consumerType: 'provider' | 'controller';
+  token: string;
+  message: string;
+  suggestion: string;
+}
+
+export interface TestSetupReport {
+  filePath: string;
+  line: number;
+  suite?: string;
+  /** Ids of the analyzed modules the setup loads, directly or through their imports; `overrideModule()` replacements are not followed. */
+  modules: string[];
+  /** Tokens and controllers created from their real classes, including everything the imported modules register. */
+  real: string[];
+  mocked: MockedProvider[];
+  /** Dependencies of providers and controllers registered by the test itself that the testing module cannot resolve. */
+  missing: MissingTestDependency[];
+}
+
+/** Provider or controller of the analyzed modules that no test creates from its real class. */
+export interface UncoveredMember {
+  kind: 'provider' | 'controller';
+  name: string;
+  module: string;
+  moduleId: string;
+  filePath?: string;
+  line?: number;
+  /** Number of test setups replacing it with a mock. */
+  mockedIn: number;
+}
+
+export interface TestCoverageReport {
+  setups: TestSetupReport[];
+  uncovered: UncoveredMember[];
+}
@@ -0,0 +1,17 @@
+export type UnusedKind = 'provider' | 'export' | 'module' | 'controller';
+
+export interface UnusedFinding {
+  kind: UnusedKind;
+  module: string;
+  /** Provider token, exported token or re-exported module, controller or module name. */
+  name: string;
+  message: string;
+  filePath?: string;
+  line?: number;
+}
+
+export interface UnusedReport {
+  /** Modules the application is bootstrapped with; modules are only reported as orphans when one is known. */
+  roots: string[];
+  findings: UnusedFinding[];
+}
@@ -0,0 +1,39 @@
+import { CycleReport } from './cycles.types';
+import { Diagnostic } from './diagnostics.types';
+import { MessageFlow } from './messaging.types';
+import { ModuleMetadata } from './modules.types';
+import { ScopedConsumer } from './scope.types';
+import { WorkspaceMetadata } from './workspace.types';
+
+export interface Visualizer {
+  generate(): string;
+}
+
+export interface VisualizerContext {
+  modules: Map<string, ModuleMetadata>;
+  cycles: CycleReport[];
+  /** Analyzed project directory; module file paths are absolute. */
+  basePath?: string;
+  workspace?: WorkspaceMetadata;
+  /** Request-scoped and transient providers and controllers. */
+  scopes?: ScopedConsumer[];
+  /** Messages, events, commands and queries sent from one provider or controller to a handler. */
+  messaging?: MessageFlow[];
+  /** Files and metadata the analysis skipped. */
+  diagnostics?: Diagnostic[];
+  /** Id of the module the graph was narrowed to with `--focus`. */
+  focus?: string;
+  /** Draw modules without their providers and controllers. */
+  collapseProviders?: boolean;
+}
+
+/**
+ * Describes an output format. Third-party formats are modules whose default export (or `module.exports`)
+ * is a VisualizerDefinition.
+ */
+export interface VisualizerDefinition {
+  format: string;
+  extensions: string[];
+  description?: string;
+  create(context: VisualizerContext): Visualizer;
+}
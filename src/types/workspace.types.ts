@@ -0,0 +1,28 @@
+export interface NestCliProject {
+  name: string;
+  type: 'application' | 'library';
+  root: string;
+  sourceRoot: string;
+  entryFile: string;
+}
+
+export interface WorkspaceApp {
+  name: string;
+  root: string;
+  entryFile: string;
+  rootModule?: string;
+  modules: string[];
+}
+
+export interface WorkspaceLibrary {
+  name: string;
+  root: string;
+  apps: string[];
+  modules: string[];
+  isShared: boolean;
+}
+
+export interface WorkspaceMetadata {
+  apps: WorkspaceApp[];
+  libraries: WorkspaceLibrary[];
+}
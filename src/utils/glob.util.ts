@@ -0,0 +1,45 @@
+const globCache = new Map<string, RegExp>();
+
+/**
+ * Converts a glob to a regular expression. Supports `**` (any number of path segments), `*` and `?`
+ * (within a segment) and `{a,b}` alternatives, which covers the patterns used in rules and config files.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const cached = globCache.get(pattern);
+  if (cached) return cached;
+
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*' && pattern[i + 1] === '*') {
+      // `**/` also matches zero directories
+      const trailingSlash = pattern[i + 2] === '/';
+      source += trailingSlash ? '(?:.*/)?' : '.*';
+      i += trailingSlash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const end = pattern.indexOf('}', i);
+      if (end === -1) {
+        source += '\\{';
+        continue;
+      }
+      const alternatives = pattern.slice(i + 1, end).split(',');
+      source += `(?:${alternatives.map((alternative) => globToRegExp(alternative).source.slice(1, -1)).join('|')})`;
+      i = end;
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  const regExp = new RegExp(`^${source}$`);
+  globCache.set(pattern, regExp);
+  return regExp;
+}
+
+export function matchGlob(patterns: string | string[], value: string): boolean {
+  return (Array.isArray(patterns) ? patterns : [patterns]).some((pattern) => globToRegExp(pattern).test(value));
+}
@@ -0,0 +1,124 @@
+import { CycleReport } from '../types/cycles.types';
+import { DiffEntry, GraphDiff } from '../types/diff.types';
+import { ModuleMetadata } from '../types/modules.types';
+import { HtmlVisualizer } from './html.visualizer';
+
+const SECTIONS: { key: keyof Omit<GraphDiff, 'newCycles' | 'resolvedCycles'>; title: string }[] = [
+  { key: 'modules', title: 'Modules' },
+  { key: 'imports', title: 'Imports' },
+  { key: 'providers', title: 'Providers' },
+  { key: 'exports', title: 'Exports' },
+  { key: 'injections', title: 'Injections' },
+];
+
+export class DiffVisualizer {
+  constructor(
+    private base: Map<string, ModuleMetadata>,
+    private head: Map<string, ModuleMetadata>,
+    private diff: GraphDiff,
+  ) {}
+
+  /**
+   * Summary for a pull-request comment. Each section is a ```diff block so GitHub colors added and
+   * removed entries.
+   */
+  public generateMarkdown(): string {
+    const lines: string[] = ['## Dependency graph changes', ''];
+    const changed = SECTIONS.filter((section) => this.diff[section.key].length);
+
+    if (!changed.length && !this.diff.newCycles.length && !this.diff.resolvedCycles.length) {
+      lines.push('No changes to modules, imports, providers, exports or injections.');
+      return lines.join('\n');
+    }
+
+    lines.push('| | Added | Removed |', '|---|---:|---:|');
+    SECTIONS.forEach((section) => {
+      const entries = this.diff[section.key];
+      lines.push(`| ${section.title} | ${this.count(entries, 'added')} | ${this.count(entries, 'removed')} |`);
+    });
+    lines.push('');
+
+    if (this.diff.newCycles.length) {
+      lines.push('### New circular dependencies', '');
+      this.diff.newCycles.forEach((cycle) => lines.push(`- ${this.formatCycle(cycle, this.head)}`));
+      lines.push('');
+    }
+
+    if (this.diff.resolvedCycles.length) {
+      lines.push('### Resolved circular dependencies', '');
+      this.diff.resolvedCycles.forEach((cycle) => lines.push(`- ${this.formatCycle(cycle, this.base)}`));
+      lines.push('');
+    }
+
+    changed.forEach((section) => {
+      lines.push(`### ${section.title}`, '', '```diff');
+      this.diff[section.key].forEach((entry) => lines.push(`${entry.change === 'added' ? '+' : '-'} ${entry.name}`));
+      lines.push('```', '');
+    });
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Module graph of both revisions: added modules and imports in green, removed ones in red and
+   * unchanged ones in gray.
+   */
+  public generateDot(): string {
+    const lines: string[] = ['digraph {', '  rankdir=LR;', '  node [shape=box, style=filled, fillcolor=lightgray, color=gray40];', ''];
+    const modules = new Map([...this.base, ...this.head]);
+    const moduleChanges = new Map(this.diff.modules.map((entry) => [entry.module, entry.change]));
+
+    modules.forEach((module, moduleId) => {
+      const change = moduleChanges.get(moduleId);
+      const style =
+        change === 'added' ? ', fillcolor=palegreen, color=darkgreen' : change === 'removed' ? ', fillcolor=mistyrose, color=red' : '';
+      lines.push(`  "${this.escape(moduleId)}" [label="${this.escape(module.name)}"${style}];`);
+    });
+    lines.push('');
+
+    const edges = new Map<string, { from: string; to: string; change?: DiffEntry['change'] }>();
+    [this.base, this.head].forEach((graph) =>
+      graph.forEach((module, moduleId) =>
+        module.imports.forEach((imp) => {
+          const to = imp.moduleId ?? imp.name;
+          edges.set(`${moduleId}\u0000${to}`, { from: moduleId, to });
+        }),
+      ),
+    );
+    this.diff.imports.forEach((entry) => {
+      const edge = edges.get(`${entry.module}\u0000${entry.target}`);
+      if (edge) edge.change = entry.change;
+    });
+
+    edges.forEach((edge) => {
+      const style =
+        edge.change === 'added'
+          ? '[color=darkgreen, penwidth=2, label="added"]'
+          : edge.change === 'removed'
+            ? '[color=red, penwidth=2, style=dashed, label="removed"]'
+            : '[color=gray60]';
+      lines.push(`  "${this.escape(edge.from)}" -> "${this.escape(edge.to)}" ${style};`);
+    });
+
+    lines.push('}');
+    return lines.join('\n');
+  }
+
+  public generateHtml(): string {
+    return new HtmlVisualizer(this.head, this.diff.newCycles, this.base).generate();
+  }
+
+  private formatCycle(cycle: CycleReport, modules: Map<string, ModuleMetadata>): string {
+    const label = (node: string) => (cycle.graph === 'module' ? (modules.get(node)?.name ?? node) : node);
+    const route = [...cycle.path.map((edge) => edge.from), cycle.path[0]?.from].map(label).join(' -> ');
+    return `[${cycle.graph}] ${cycle.isGuarded ? 'guarded by forwardRef' : '**unguarded**'}: ${route}`;
+  }
+
+  private count(entries: DiffEntry[], change: DiffEntry['change']): number {
+    return entries.filter((entry) => entry.change === change).length;
+  }
+
+  private escape(value: string): string {
+    return value.replace(/"/g, '\\"');
+  }
+}
@@ -1,10 +1,31 @@
-import { ModuleMetadata } from '../types/modules.types';
+import { DependencyAnalyzer } from '../analyzers/dependency.analyzer';
+import { CycleReport } from '../types/cycles.types';
+import { MessageFlow } from '../types/messaging.types';
+import { ControllerMetadata, ImportMetadata, ModuleMetadata, ProviderMetadata } from '../types/modules.types';
+import { ScopedConsumer } from '../types/scope.types';
+import { Visualizer, VisualizerContext } from '../types/visualizer.types';
+import { WorkspaceMetadata } from '../types/workspace.types';
 
-export class DotVisualizer {
-  constructor(private modules: Map<string, ModuleMetadata>) {}
+export class DotVisualizer implements Visualizer {
+  /** Injected tokens no analyzed module provides, drawn as loose dashed nodes. */
+  private unresolvedTokens = new Set<string>();
 
+  constructor(
+    private modules: Map<string, ModuleMetadata>,
+    private cycles: CycleReport[] = [],
+    private workspace?: WorkspaceMetadata,
+    private scopes: ScopedConsumer[] = [],
+    private messaging: MessageFlow[] = [],
+    private options: Pick<VisualizerContext, 'focus' | 'collapseProviders'> = {},
+  ) {}
+
+  /**
+   * Draws every module as a cluster holding its providers and controllers, or as a single node when
+   * providers are collapsed. External modules are grouped by package in a cluster of their own.
+   */
   public generate(): string {
     const lines: string[] = [];
+    this.unresolvedTokens = new Set();
 
     // Start digraph with proper formatting
     lines.push('digraph {');
@@ -13,39 +34,324 @@ export class DotVisualizer {
     lines.push('');
 
     // Generate nodes
-    this.modules.forEach((module, moduleName) => {
-      const label = this.escapeLabel(
-        `${moduleName}\\n` +
-          `Controllers: ${module.controllers.length}\\n` +
-          `Providers: ${module.providers.length}\\n` +
-          `Imports: ${module.imports.length}`,
-      );
-
-      lines.push(`  "${this.escapeName(moduleName)}" [label="${label}"];`);
-    });
+    if (this.workspace) {
+      this.generateWorkspaceClusters(this.workspace, lines);
+    } else {
+      this.modules.forEach((module, moduleId) => lines.push(...this.generateModule(moduleId, module, '  ')));
+    }
+    this.generateExternalModules(lines);
     lines.push('');
 
     // Generate module dependencies
-    this.modules.forEach((module, moduleName) => {
+    this.modules.forEach((module, moduleId) => {
       module.imports.forEach((imp) => {
-        const edgeStyle = imp.isForwardReference ? '[label="imports (forward ref)", style=dashed, color=red]' : '[label="imports"]';
+        const target = imp.moduleId ?? imp.name;
+        const edgeStyle = this.isUnguardedCycleEdge('module', moduleId, target)
+          ? '[label="imports (circular)", color=red, penwidth=2]'
+          : imp.isForwardReference
+            ? '[label="imports (forward ref)", style=dashed, color=red]'
+            : imp.condition
+              ? `[label="${this.getImportLabel(imp)}\\nif ${this.escapeLabel(imp.condition)}", style=dotted]`
+              : `[label="${this.getImportLabel(imp)}"]`;
 
-        lines.push(`  "${this.escapeName(moduleName)}" -> "${this.escapeName(imp.name)}" ${edgeStyle};`);
+        lines.push(`  "${this.escapeName(moduleId)}" -> "${this.escapeName(target)}" ${edgeStyle};`);
+        this.generateConfigDependencies(module, imp, lines);
       });
     });
 
-    // Generate provider dependencies
-    this.modules.forEach((module) => {
-      module.providers.forEach((provider) => {
-        provider.dependencies.forEach((dep) => {
-          lines.push(`  "${this.escapeName(provider.name)}" -> "${this.escapeName(dep)}" [color=blue, style=dashed];`);
+    if (!this.options.collapseProviders) {
+      this.generateInjections(lines);
+    }
+    this.generateMessageEdges(lines);
+
+    this.unresolvedTokens.forEach((token) =>
+      lines.push(
+        `  "${this.escapeName(this.getTokenId(token))}" [label="${this.escapeLabel(token)}", shape=ellipse, style=dashed, fontcolor=gray30];`,
+      ),
+    );
+
+    lines.push('}');
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Provider dependencies, drawn from the injecting provider or controller to the provider Nest
+   * resolves the token to in that module.
+   */
+  private generateInjections(lines: string[]): void {
+    this.modules.forEach((module, moduleId) => {
+      const consumers = [
+        ...module.providers.map((provider) => {
+          const token = this.getToken(provider);
+          return { token, id: this.getProviderId(moduleId, token), consumer: provider };
+        }),
+        ...module.controllers.map((controller) => ({
+          token: controller.name,
+          id: this.getControllerId(moduleId, controller.name),
+          consumer: controller,
+        })),
+      ];
+
+      consumers.forEach(({ token, id, consumer }) => {
+        const scoped = this.getScope(moduleId, token);
+        consumer.dependencies.forEach((dep) => {
+          const edgeStyle = this.isUnguardedCycleEdge('provider', consumer.name, dep)
+            ? '[color=red, penwidth=2]'
+            : scoped?.cause === dep
+              ? '[color=darkorange, penwidth=2, label="request scope"]'
+              : '[color=blue, style=dashed]';
+          lines.push(`  "${this.escapeName(id)}" -> "${this.escapeName(this.getTokenTarget(module, dep))}" ${edgeStyle};`);
         });
       });
     });
+  }
 
-    lines.push('}');
+  /** Messages crossing module boundaries, drawn between the sending and the handling module. */
+  private generateMessageEdges(lines: string[]): void {
+    const edges = new Set<string>();
+    this.messaging
+      .filter((flow) => flow.from.moduleId !== flow.to.moduleId)
+      .forEach((flow) => {
+        const label = this.escapeLabel(`${flow.kind} ${flow.pattern}`);
+        edges.add(
+          `  "${this.escapeName(flow.from.moduleId)}" -> "${this.escapeName(flow.to.moduleId)}" [label="${label}", color=purple, style=bold];`,
+        );
+      });
+    lines.push(...edges);
+  }
 
-    return lines.join('\n');
+  /**
+   * A module with its providers and controllers in a cluster. The module node stays the end of import
+   * edges, so edges between modules do not depend on whether providers are collapsed.
+   */
+  private generateModule(moduleId: string, module: ModuleMetadata, indent: string, fillcolor?: string): string[] {
+    const isFocus = moduleId === this.options.focus;
+    const focus = isFocus ? ', color=firebrick, penwidth=3' : '';
+    const fill = fillcolor ? `, fillcolor=${fillcolor}` : '';
+
+    if (this.options.collapseProviders) {
+      return [`${indent}${this.getModuleNode(moduleId, module, `${fill}${focus}`)}`];
+    }
+
+    const unreachable = module.isReachable === false ? 'rounded,dashed' : 'rounded';
+    return [
+      `${indent}subgraph "cluster_${this.escapeName(moduleId)}" {`,
+      `${indent}  style="${unreachable}"; color=${isFocus ? 'firebrick' : 'gray50'};${isFocus ? ' penwidth=3;' : ''}`,
+      `${indent}  ${this.getModuleNode(moduleId, module, `, shape=tab${fill}${focus}`)}`,
+      ...module.providers.map((provider) => `${indent}  ${this.getProviderNode(moduleId, module, provider)}`),
+      ...module.controllers.map((controller) => `${indent}  ${this.getControllerNode(moduleId, controller)}`),
+      `${indent}}`,
+    ];
+  }
+
+  private getModuleNode(moduleId: string, module: ModuleMetadata, attributes = ''): string {
+    const label = this.escapeLabel(
+      `${module.name}\\n` +
+        `Controllers: ${module.controllers.length}\\n` +
+        `Providers: ${module.providers.length}\\n` +
+        `Imports: ${module.imports.length}` +
+        (module.configurable ? `\\nConfigurable: ${module.configurable.classMethodName}()` : ''),
+    );
+
+    // Modules that exist on disk but are never imported from the root module
+    const unreachable = module.isReachable === false ? ', style="filled,dashed", fontcolor=gray40' : '';
+
+    return `"${this.escapeName(moduleId)}" [label="${label}"${attributes}${unreachable}];`;
+  }
+
+  /**
+   * Exported providers get a double border and, unless they are request-scoped or transient, a green fill.
+   */
+  private getProviderNode(moduleId: string, module: ModuleMetadata, provider: ProviderMetadata): string {
+    const token = this.getToken(provider);
+    const isExported = module.exports.includes(token);
+    const scoped = this.getScope(moduleId, token);
+
+    const details = [
+      provider.type !== 'class' ? `use${provider.type[0].toUpperCase()}${provider.type.slice(1)}` : '',
+      this.getScopeLabel(scoped),
+    ];
+    const label = this.escapeLabel([token, ...details.filter(Boolean)].join('\\n'));
+    const fillcolor = scoped ? this.getScopeColor(scoped) : isExported ? 'palegreen' : 'white';
+    const exported = isExported ? ', peripheries=2' : '';
+    const conditional = provider.condition ? ', style="filled,dotted"' : '';
+
+    return `"${this.escapeName(this.getProviderId(moduleId, token))}" [label="${label}", shape=ellipse, fillcolor=${fillcolor}${exported}${conditional}];`;
+  }
+
+  private getControllerNode(moduleId: string, controller: ControllerMetadata): string {
+    const scoped = this.getScope(moduleId, controller.name);
+    const label = this.escapeLabel([controller.name, this.getScopeLabel(scoped)].filter(Boolean).join('\\n'));
+    const fillcolor = scoped ? this.getScopeColor(scoped) : 'lightblue';
+
+    return `"${this.escapeName(this.getControllerId(moduleId, controller.name))}" [label="${label}", shape=component, fillcolor=${fillcolor}];`;
+  }
+
+  /**
+   * Request-scoped and transient providers and controllers, with the dependency that made them request-scoped.
+   */
+  private getScopeLabel(scoped: ScopedConsumer | undefined): string {
+    if (!scoped) return '';
+
+    const origin = scoped.isImplicit ? `implicit via ${scoped.cause}` : 'declared';
+    return `${scoped.scope}${scoped.durable ? ', durable' : ''} (${origin})`;
+  }
+
+  private getScopeColor(scoped: ScopedConsumer): string {
+    return scoped.scope === 'TRANSIENT' ? 'lightyellow' : scoped.isImplicit ? 'moccasin' : 'orange';
+  }
+
+  private getScope(moduleId: string, name: string): ScopedConsumer | undefined {
+    return this.scopes.find((scoped) => scoped.moduleId === moduleId && scoped.name === name);
+  }
+
+  /**
+   * Modules imported from packages or from outside the analyzed files, in one cluster per package.
+   * Modules whose package is unknown sit directly in the surrounding cluster.
+   */
+  private generateExternalModules(lines: string[]): void {
+    const externals = new Map<string, string | undefined>();
+    const collect = (imports: ImportMetadata[]) =>
+      imports.forEach((imp) => {
+        if (!imp.moduleId && !externals.has(imp.name)) externals.set(imp.name, imp.package);
+        if (imp.dynamic) collect(imp.dynamic.imports);
+      });
+    this.modules.forEach((module) => collect(module.imports));
+    if (!externals.size) return;
+
+    const packages = new Map<string, string[]>();
+    externals.forEach((packageName, name) => packages.set(packageName ?? '', [...(packages.get(packageName ?? '') ?? []), name]));
+    const getNode = (name: string) =>
+      `"${this.escapeName(name)}" [label="${this.escapeLabel(name)}", style="filled,dashed", fillcolor=white, fontcolor=gray30];`;
+
+    lines.push('  subgraph "cluster_external" {');
+    lines.push('    label="External modules"; style="rounded,dashed"; color=gray60; fontcolor=gray40;');
+    Array.from(packages.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .forEach(([packageName, names]) => {
+        if (!packageName) {
+          names.forEach((name) => lines.push(`    ${getNode(name)}`));
+          return;
+        }
+
+        lines.push(`    subgraph "cluster_package_${this.escapeName(packageName)}" {`);
+        lines.push(`      label="${this.escapeLabel(packageName)}"; style=rounded; color=gray70;`);
+        names.forEach((name) => lines.push(`      ${getNode(name)}`));
+        lines.push('    }');
+      });
+    lines.push('  }');
+  }
+
+  /**
+   * Groups modules of a Nest CLI monorepo into one cluster per app and per library (by project root).
+   * Libraries used by more than one app are highlighted.
+   */
+  private generateWorkspaceClusters(workspace: WorkspaceMetadata, lines: string[]): void {
+    const clustered = new Set<string>();
+    const clusters = [
+      ...workspace.apps.map((app) => ({ key: `app_${app.name}`, label: `app: ${app.name}`, root: app.root, color: 'lightblue' })),
+      ...workspace.libraries.map((library) => ({
+        key: `lib_${library.name}`,
+        label: library.isShared ? `lib: ${library.name} (shared by ${library.apps.join(', ')})` : `lib: ${library.name}`,
+        root: library.root,
+        color: library.isShared ? 'gold' : 'lightyellow',
+      })),
+    ];
+
+    clusters.forEach((cluster) => {
+      const members = Array.from(this.modules.entries()).filter(([moduleId]) => moduleId.startsWith(`${cluster.root}/`));
+      if (!members.length) return;
+
+      lines.push(`  subgraph "cluster_${this.escapeName(cluster.key)}" {`);
+      lines.push(`    label="${this.escapeLabel(cluster.label)}";`);
+      members.forEach(([moduleId, module]) => {
+        clustered.add(moduleId);
+        lines.push(...this.generateModule(moduleId, module, '    ', cluster.color));
+      });
+      lines.push('  }');
+    });
+
+    this.modules.forEach((module, moduleId) => {
+      if (!clustered.has(moduleId)) lines.push(...this.generateModule(moduleId, module, '  '));
+    });
+  }
+
+  private getImportLabel(imp: ImportMetadata): string {
+    if (!imp.dynamic) return 'imports';
+
+    const features = imp.dynamic.features.length ? `\\n[${imp.dynamic.features.join(', ')}]` : '';
+    return this.escapeLabel(`imports (${imp.dynamic.method})${features}`);
+  }
+
+  /**
+   * Draws what a dynamic module's options depend on: modules imported inside `*Async` options and the
+   * tokens injected into (or used to build) its config factory. Tokens are resolved in the modules
+   * imported into the options, then in the importing module; with collapsed providers they point to
+   * the module providing them.
+   */
+  private generateConfigDependencies(module: ModuleMetadata, imp: ImportMetadata, lines: string[]): void {
+    if (!imp.dynamic) return;
+
+    const source = this.escapeName(imp.moduleId ?? imp.name);
+    imp.dynamic.imports.forEach((nested) => {
+      lines.push(
+        `  "${source}" -> "${this.escapeName(nested.moduleId ?? nested.name)}" [label="config imports", style=dotted, color=purple];`,
+      );
+      this.generateConfigDependencies(module, nested, lines);
+    });
+
+    const tokens = [
+      ...imp.dynamic.inject.map((token) => ({ token, label: 'config inject' })),
+      ...[imp.dynamic.useClass, imp.dynamic.useExisting]
+        .filter((factory): factory is string => !!factory)
+        .map((token) => ({ token, label: 'config factory' })),
+    ];
+    const optionsModules = imp.dynamic.imports.flatMap((nested) => (nested.moduleId ? (this.modules.get(nested.moduleId) ?? []) : []));
+    tokens.forEach(({ token, label }) => {
+      // Modules imported into the options come first, as they do for the options factory in Nest
+      const context = optionsModules.find((nested) => !!nested.exportedProviders?.includes(token)) ?? module;
+      const target = this.options.collapseProviders ? this.resolveProvider(context, token)?.id : this.getTokenTarget(context, token);
+      if (target) lines.push(`  "${source}" -> "${this.escapeName(target)}" [label="${label}", style=dotted, color=purple];`);
+    });
+  }
+
+  /**
+   * Node of the provider `token` resolves to in `module`, or a loose token node when no analyzed module
+   * provides it (e.g. a provider of an external module).
+   */
+  private getTokenTarget(module: ModuleMetadata, token: string): string {
+    const owner = this.resolveProvider(module, token);
+    if (owner) return this.getProviderId(owner.id, token);
+
+    this.unresolvedTokens.add(token);
+    return this.getTokenId(token);
+  }
+
+  /** Module registering the provider `token` resolves to in `module`. */
+  private resolveProvider(module: ModuleMetadata, token: string): ModuleMetadata | undefined {
+    const resolved = DependencyAnalyzer.resolveProvider(this.modules, module, token);
+    return resolved?.provider && resolved.module;
+  }
+
+  private isUnguardedCycleEdge(graph: CycleReport['graph'], from: string, to: string): boolean {
+    return this.cycles.some((cycle) => cycle.graph === graph && cycle.unguardedEdges.some((edge) => edge.from === from && edge.to === to));
+  }
+
+  private getToken(provider: ProviderMetadata): string {
+    return provider.provide ?? provider.name;
+  }
+
+  private getProviderId(moduleId: string, token: string): string {
+    return `${moduleId}::provider:${token}`;
+  }
+
+  private getControllerId(moduleId: string, name: string): string {
+    return `${moduleId}::controller:${name}`;
+  }
+
+  private getTokenId(token: string): string {
+    return `token:${token}`;
   }
 
   private escapeName(name: string): string {
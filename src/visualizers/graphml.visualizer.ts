@@ -0,0 +1,117 @@
+import { CycleReport } from '../types/cycles.types';
+import { ModuleMetadata } from '../types/modules.types';
+import { Visualizer } from '../types/visualizer.types';
+
+const NODE_KEYS = ['label', 'kind', 'filePath', 'isGlobal', 'module'];
+const EDGE_KEYS = ['kind', 'label', 'isForwardReference', 'isCircular'];
+
+export class GraphMlVisualizer implements Visualizer {
+  constructor(
+    private modules: Map<string, ModuleMetadata>,
+    private cycles: CycleReport[] = [],
+  ) {}
+
+  /**
+   * Produces GraphML with modules and providers as nodes. Attributes are plain `<data>` keys, which
+   * yEd (via its properties mapper) and Gephi both import.
+   */
+  public generate(): string {
+    const lines: string[] = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+      ...NODE_KEYS.map((key) => `  <key id="n_${key}" for="node" attr.name="${key}" attr.type="string"/>`),
+      ...EDGE_KEYS.map((key) => `  <key id="e_${key}" for="edge" attr.name="${key}" attr.type="string"/>`),
+      '  <graph id="dependencies" edgedefault="directed">',
+    ];
+    const nodes = new Set<string>();
+    let edgeIndex = 0;
+
+    const addNode = (id: string, data: Record<string, string | undefined>) => {
+      if (nodes.has(id)) return;
+      nodes.add(id);
+      lines.push(`    <node id="${this.escape(id)}">${this.getData('n', data)}</node>`);
+    };
+    const addEdge = (from: string, to: string, data: Record<string, string | undefined>) => {
+      lines.push(
+        `    <edge id="e${edgeIndex++}" source="${this.escape(from)}" target="${this.escape(to)}">${this.getData('e', data)}</edge>`,
+      );
+    };
+
+    this.modules.forEach((module, moduleId) => {
+      addNode(moduleId, { label: module.name, kind: 'module', filePath: module.filePath, isGlobal: String(!!module.isGlobal) });
+      module.providers.forEach((provider) => {
+        addNode(this.getProviderId(moduleId, provider.provide ?? provider.name), {
+          label: provider.name,
+          kind: 'provider',
+          module: module.name,
+        });
+      });
+    });
+
+    this.modules.forEach((module, moduleId) => {
+      module.imports.forEach((imp) => {
+        const target = imp.moduleId ?? imp.name;
+        addNode(target, { label: imp.name, kind: 'external' });
+        addEdge(moduleId, target, {
+          kind: 'import',
+          label: imp.dynamic?.method,
+          isForwardReference: String(!!imp.isForwardReference),
+          isCircular: String(this.isUnguardedCycleEdge('module', moduleId, target)),
+        });
+      });
+
+      module.providers.forEach((provider) => {
+        const providerId = this.getProviderId(moduleId, provider.provide ?? provider.name);
+        addEdge(moduleId, providerId, { kind: 'provides' });
+
+        provider.dependencies.forEach((token) => {
+          const target = this.findProviderNode(module, token);
+          addNode(target, { label: token, kind: 'token' });
+          addEdge(providerId, target, {
+            kind: 'injects',
+            isForwardReference: String(
+              !!provider.injections?.some((injection) => injection.token === token && injection.isForwardReference),
+            ),
+            isCircular: String(this.isUnguardedCycleEdge('provider', provider.name, token)),
+          });
+        });
+      });
+    });
+
+    lines.push('  </graph>', '</graphml>');
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Links an injected token to the provider node of the same module, or to the module that exports it.
+   * Tokens nobody provides become standalone token nodes.
+   */
+  private findProviderNode(module: ModuleMetadata, token: string): string {
+    const owner = [module, ...Array.from(this.modules.values())].find(
+      (candidate) =>
+        (candidate === module || !!candidate.exportedProviders?.includes(token)) &&
+        candidate.providers.some((provider) => (provider.provide ?? provider.name) === token),
+    );
+    return owner ? this.getProviderId(owner.id, token) : `token:${token}`;
+  }
+
+  private getProviderId(moduleId: string, token: string): string {
+    return `${moduleId}::${token}`;
+  }
+
+  private getData(prefix: 'n' | 'e', data: Record<string, string | undefined>): string {
+    return Object.entries(data)
+      .filter((entry): entry is [string, string] => entry[1] !== undefined)
+      .map(([key, value]) => `<data key="${prefix}_${key}">${this.escape(value)}</data>`)
+      .join('');
+  }
+
+  private isUnguardedCycleEdge(graph: CycleReport['graph'], from: string, to: string): boolean {
+    return this.cycles.some((cycle) => cycle.graph === graph && cycle.unguardedEdges.some((edge) => edge.from === from && edge.to === to));
+  }
+
+  private escape(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+}
@@ -0,0 +1,562 @@
+import * as path from 'path';
+import { DependencyAnalyzer } from '../analyzers/dependency.analyzer';
+import { CycleReport } from '../types/cycles.types';
+import { ChangeKind } from '../types/diff.types';
+import { ModuleMetadata, ProviderMetadata } from '../types/modules.types';
+import { ScopedConsumer } from '../types/scope.types';
+import { Visualizer } from '../types/visualizer.types';
+
+interface HtmlModuleNode {
+  id: string;
+  name: string;
+  filePath?: string;
+  isGlobal: boolean;
+  isExternal: boolean;
+  isUnreachable: boolean;
+  imports: string[];
+  exports: string[];
+  reExports: string[];
+  controllers: string[];
+  providers: string[];
+  change?: ChangeKind;
+}
+
+interface HtmlProviderNode {
+  id: string;
+  module: string;
+  name: string;
+  type: ProviderMetadata['type'];
+  tokenKind?: string;
+  isExported: boolean;
+  injections: { token: string; kind: string; isOptional: boolean }[];
+  scope?: Pick<ScopedConsumer, 'scope' | 'isImplicit' | 'durable' | 'chain'>;
+  change?: ChangeKind;
+}
+
+interface HtmlEdge {
+  from: string;
+  to: string;
+  label?: string;
+  style: 'import' | 'forwardRef' | 'cycle' | 'injection';
+  change?: ChangeKind;
+}
+
+export interface HtmlGraphData {
+  modules: HtmlModuleNode[];
+  providers: HtmlProviderNode[];
+  moduleEdges: HtmlEdge[];
+  providerEdges: HtmlEdge[];
+}
+
+export class HtmlVisualizer implements Visualizer {
+  constructor(
+    private modules: Map<string, ModuleMetadata>,
+    private cycles: CycleReport[] = [],
+    private base?: Map<string, ModuleMetadata>,
+    private scopes: ScopedConsumer[] = [],
+    /** Project path; embedded file paths are made relative to it so the report does not leak local directories. */
+    private basePath?: string,
+  ) {}
+
+  /**
+   * Produces a single HTML file with the graph data and viewer inlined, so the report can be attached
+   * to a pull request and opened offline.
+   */
+  public generate(): string {
+    // Escape `<` so module metadata can never close the surrounding <script> tag
+    const graph = this.base
+      ? this.overlay(new HtmlVisualizer(this.base, [], undefined, [], this.basePath).buildGraphData(), this.buildGraphData())
+      : this.buildGraphData();
+    const data = JSON.stringify(graph).replace(/</g, '\\u003c');
+
+    return HTML_TEMPLATE.replace('__GRAPH_DATA__', () => data);
+  }
+
+  public buildGraphData(): HtmlGraphData {
+    const modules: HtmlModuleNode[] = [];
+    const providers: HtmlProviderNode[] = [];
+    const moduleEdges: HtmlEdge[] = [];
+    const externalModules = new Set<string>();
+    const scopes = new Map(this.scopes.map((scoped) => [`${scoped.moduleId}::${scoped.name}`, scoped]));
+
+    this.modules.forEach((module, moduleId) => {
+      modules.push({
+        id: moduleId,
+        name: module.name,
+        filePath: this.getRelativePath(module.filePath),
+        isGlobal: !!module.isGlobal,
+        isExternal: false,
+        isUnreachable: module.isReachable === false,
+        imports: module.imports.map((imp) => imp.moduleId ?? imp.name),
+        exports: module.exports,
+        reExports: module.reExports,
+        controllers: module.controllers.map((controller) => {
+          const scoped = scopes.get(`${moduleId}::${controller.name}`);
+          return scoped
+            ? `${controller.name} (${scoped.scope}${scoped.isImplicit ? ` via ${scoped.chain.join(' → ')}` : ''})`
+            : controller.name;
+        }),
+        providers: module.providers.map((provider) => this.getProviderId(moduleId, provider)),
+      });
+
+      module.providers.forEach((provider) => {
+        providers.push({
+          id: this.getProviderId(moduleId, provider),
+          module: moduleId,
+          name: provider.name,
+          type: provider.type,
+          tokenKind: provider.tokenKind,
+          isExported: module.exports.includes(provider.provide ?? provider.name),
+          injections: (provider.injections ?? []).map((injection) => ({
+            token: injection.token,
+            kind: injection.kind,
+            isOptional: injection.isOptional,
+          })),
+          scope: this.getScope(scopes.get(this.getProviderId(moduleId, provider))),
+        });
+      });
+
+      module.imports.forEach((imp) => {
+        const target = imp.moduleId ?? imp.name;
+        if (!imp.moduleId) externalModules.add(imp.name);
+
+        moduleEdges.push({
+          from: moduleId,
+          to: target,
+          label: [imp.dynamic?.method, imp.condition && `if ${imp.condition}`].filter(Boolean).join(' ') || undefined,
+          style: this.isUnguardedCycleEdge(moduleId, target) ? 'cycle' : imp.isForwardReference ? 'forwardRef' : 'import',
+        });
+      });
+    });
+
+    externalModules.forEach((name) => {
+      modules.push({
+        id: name,
+        name,
+        isGlobal: false,
+        isExternal: true,
+        isUnreachable: false,
+        imports: [],
+        exports: [],
+        reExports: [],
+        controllers: [],
+        providers: [],
+      });
+    });
+
+    return { modules, providers, moduleEdges, providerEdges: this.buildProviderEdges() };
+  }
+
+  /**
+   * Merges a base graph into the current one for diff reports: nodes and edges only in the current
+   * graph are marked as added, those only in the base graph are kept and marked as removed.
+   */
+  private overlay(base: HtmlGraphData, head: HtmlGraphData): HtmlGraphData {
+    const mergeNodes = <T extends { id: string; change?: ChangeKind }>(baseNodes: T[], headNodes: T[]): T[] => {
+      const baseIds = new Set(baseNodes.map((node) => node.id));
+      const headIds = new Set(headNodes.map((node) => node.id));
+      return [
+        ...headNodes.map((node) => (baseIds.has(node.id) ? node : { ...node, change: 'added' as const })),
+        ...baseNodes.filter((node) => !headIds.has(node.id)).map((node) => ({ ...node, change: 'removed' as const })),
+      ];
+    };
+    const mergeEdges = (baseEdges: HtmlEdge[], headEdges: HtmlEdge[]): HtmlEdge[] => {
+      const key = (edge: HtmlEdge) => `${edge.from}\u0000${edge.to}`;
+      const baseKeys = new Set(baseEdges.map(key));
+      const headKeys = new Set(headEdges.map(key));
+      return [
+        ...headEdges.map((edge) => (baseKeys.has(key(edge)) ? edge : { ...edge, change: 'added' as const })),
+        ...baseEdges.filter((edge) => !headKeys.has(key(edge))).map((edge) => ({ ...edge, change: 'removed' as const })),
+      ];
+    };
+
+    return {
+      modules: mergeNodes(base.modules, head.modules),
+      providers: mergeNodes(base.providers, head.providers),
+      moduleEdges: mergeEdges(base.moduleEdges, head.moduleEdges),
+      providerEdges: mergeEdges(base.providerEdges, head.providerEdges),
+    };
+  }
+
+  private buildProviderEdges(): HtmlEdge[] {
+    const edges: HtmlEdge[] = [];
+
+    this.modules.forEach((module, moduleId) => {
+      module.providers.forEach((provider) => {
+        provider.dependencies.forEach((token) => {
+          // Tokens the module cannot inject get no edge, as in the JSON and DOT graphs
+          const target = DependencyAnalyzer.resolveProvider(this.modules, module, token);
+          if (!target?.provider) return;
+
+          edges.push({
+            from: this.getProviderId(moduleId, provider),
+            to: this.getProviderId(target.module.id, target.provider),
+            style: 'injection',
+          });
+        });
+      });
+    });
+
+    return edges;
+  }
+
+  private getScope(scoped: ScopedConsumer | undefined): HtmlProviderNode['scope'] {
+    return scoped && { scope: scoped.scope, isImplicit: scoped.isImplicit, durable: scoped.durable, chain: scoped.chain };
+  }
+
+  private getProviderId(moduleId: string, provider: ProviderMetadata): string {
+    return `${moduleId}::${provider.provide ?? provider.name}`;
+  }
+
+  private getRelativePath(filePath: string | undefined): string | undefined {
+    if (!filePath || !this.basePath) return filePath;
+    return path.relative(this.basePath, filePath).split(path.sep).join('/');
+  }
+
+  private isUnguardedCycleEdge(from: string, to: string): boolean {
+    return this.cycles.some(
+      (cycle) => cycle.graph === 'module' && cycle.unguardedEdges.some((edge) => edge.from === from && edge.to === to),
+    );
+  }
+}
+
+const HTML_TEMPLATE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>NestJS Dependency Report</title>
+<style>
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 13px/1.4 -apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif; color: #1f2328; display: flex; height: 100vh; }
+  #sidebar { width: 340px; border-right: 1px solid #d0d7de; display: flex; flex-direction: column; background: #f6f8fa; }
+  #toolbar { padding: 12px; border-bottom: 1px solid #d0d7de; }
+  #search { width: 100%; padding: 6px 8px; border: 1px solid #d0d7de; border-radius: 6px; font-size: 13px; }
+  #toolbar button { margin-top: 8px; padding: 4px 10px; border: 1px solid #d0d7de; border-radius: 6px; background: #fff; cursor: pointer; }
+  #results { max-height: 30vh; overflow: auto; border-bottom: 1px solid #d0d7de; }
+  #results div { padding: 4px 12px; cursor: pointer; }
+  #results div:hover { background: #eaeef2; }
+  #details { padding: 12px; overflow: auto; flex: 1; }
+  #details h2 { font-size: 15px; margin: 0 0 4px; word-break: break-all; }
+  #details h3 { font-size: 12px; text-transform: uppercase; color: #656d76; margin: 12px 0 4px; }
+  #details ul { margin: 0; padding-left: 18px; }
+  #details .path { color: #656d76; word-break: break-all; }
+  #canvas { flex: 1; overflow: hidden; cursor: grab; }
+  svg { width: 100%; height: 100%; user-select: none; }
+  .module rect.box { fill: #fff; stroke: #8c959f; rx: 6; }
+  .module.global rect.box { stroke: #1a7f37; stroke-width: 2; }
+  .module.external rect.box { fill: #f6f8fa; stroke-dasharray: 4 3; }
+  .module.unreachable rect.box { stroke-dasharray: 2 3; }
+  .module.unreachable text { fill: #8c959f; }
+  .module text.title { font-weight: 600; }
+  .module text.toggle { fill: #0969da; cursor: pointer; font-weight: 600; }
+  .provider rect { fill: #ddf4ff; stroke: #54aeff; rx: 4; }
+  .provider.exported rect { fill: #dafbe1; stroke: #4ac26b; }
+  .provider.request rect { fill: #fff1e5; stroke: #fb8f44; }
+  .provider.transient rect { fill: #fff8c5; stroke: #d4a72c; }
+  .node { cursor: pointer; }
+  .edge { fill: none; stroke: #8c959f; stroke-width: 1.2; }
+  .edge.forwardRef { stroke: #cf222e; stroke-dasharray: 5 4; }
+  .edge.cycle { stroke: #cf222e; stroke-width: 2.5; }
+  .edge.injection { stroke: #0969da; stroke-dasharray: 3 3; }
+  .edge.added { stroke: #1a7f37; stroke-width: 2.5; stroke-dasharray: none; }
+  .edge.removed { stroke: #cf222e; stroke-width: 2.5; stroke-dasharray: 6 3; }
+  .module.added rect.box, .provider.added rect { fill: #dafbe1; stroke: #1a7f37; stroke-width: 2; }
+  .module.removed rect.box, .provider.removed rect { fill: #ffebe9; stroke: #cf222e; stroke-width: 2; }
+  .dim { opacity: 0.15; }
+  .selected rect { stroke: #bf8700 !important; stroke-width: 3 !important; }
+  .match rect.box, .match > rect { fill: #fff8c5 !important; }
+  .legend { font-size: 11px; color: #656d76; margin-top: 8px; }
+</style>
+</head>
+<body>
+<div id="sidebar">
+  <div id="toolbar">
+    <input id="search" type="search" placeholder="Search modules and providers...">
+    <div>
+      <button id="expand-all">Expand all</button>
+      <button id="collapse-all">Collapse all</button>
+      <button id="clear">Clear selection</button>
+    </div>
+    <div class="legend" id="diff-legend" hidden>Changes: green nodes and edges were added, red ones were removed.</div>
+    <div class="legend">Click a node to highlight its upstream and downstream neighbors. Use +/- to show a module's providers. Drag to pan, scroll to zoom.</div>
+  </div>
+  <div id="results"></div>
+  <div id="details"><p>Select a module or provider to see its metadata.</p></div>
+</div>
+<div id="canvas"><svg id="graph"><defs><marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z" fill="#8c959f"></path></marker></defs><g id="viewport"></g></svg></div>
+<script>
+(function () {
+  var data = __GRAPH_DATA__;
+  var SVG_NS = 'http://www.w3.org/2000/svg';
+  var MODULE_WIDTH = 220, HEADER_HEIGHT = 30, PROVIDER_HEIGHT = 22, COLUMN_GAP = 120, ROW_GAP = 24;
+
+  var modulesById = {}, providersById = {};
+  data.modules.forEach(function (m) { modulesById[m.id] = m; });
+  data.providers.forEach(function (p) { providersById[p.id] = p; });
+
+  var expanded = {};
+  var selected = null;
+  var positions = {};
+  var view = { x: 0, y: 0, scale: 1 };
+
+  // Layer modules by their longest import chain so that imports flow left to right
+  var layers = {};
+  function computeLayer(id, stack) {
+    if (layers[id] !== undefined) return layers[id];
+    if (stack[id]) return 0;
+    stack[id] = true;
+    var module = modulesById[id];
+    var layer = 0;
+    (module ? module.imports : []).forEach(function (target) {
+      if (modulesById[target]) layer = Math.max(layer, computeLayer(target, stack) + 1);
+    });
+    stack[id] = false;
+    layers[id] = layer;
+    return layer;
+  }
+  data.modules.forEach(function (m) { computeLayer(m.id, {}); });
+  var maxLayer = Math.max.apply(null, data.modules.map(function (m) { return layers[m.id]; }).concat([0]));
+
+  function moduleHeight(m) {
+    return HEADER_HEIGHT + (expanded[m.id] ? m.providers.length * PROVIDER_HEIGHT + 6 : 0);
+  }
+
+  function layout() {
+    positions = {};
+    var columns = [];
+    data.modules.forEach(function (m) {
+      var column = maxLayer - layers[m.id];
+      (columns[column] = columns[column] || []).push(m);
+    });
+    columns.forEach(function (column, index) {
+      var y = 0;
+      column.sort(function (a, b) { return a.name.localeCompare(b.name); }).forEach(function (m) {
+        var height = moduleHeight(m);
+        positions[m.id] = { x: index * (MODULE_WIDTH + COLUMN_GAP), y: y, width: MODULE_WIDTH, height: height };
+        if (expanded[m.id]) {
+          m.providers.forEach(function (providerId, i) {
+            positions[providerId] = { x: index * (MODULE_WIDTH + COLUMN_GAP) + 8, y: y + HEADER_HEIGHT + i * PROVIDER_HEIGHT, width: MODULE_WIDTH - 16, height: PROVIDER_HEIGHT - 4 };
+          });
+        }
+        y += height + ROW_GAP;
+      });
+    });
+  }
+
+  function visibleEdges() {
+    var edges = data.moduleEdges.slice();
+    data.providerEdges.forEach(function (edge) {
+      if (positions[edge.from] && positions[edge.to]) edges.push(edge);
+    });
+    return edges;
+  }
+
+  function element(name, attributes, parent) {
+    var el = document.createElementNS(SVG_NS, name);
+    Object.keys(attributes).forEach(function (key) { el.setAttribute(key, attributes[key]); });
+    if (parent) parent.appendChild(el);
+    return el;
+  }
+
+  function text(content, attributes, parent) {
+    var el = element('text', attributes, parent);
+    el.textContent = content;
+    return el;
+  }
+
+  function truncate(value, length) {
+    return value.length > length ? value.slice(0, length - 1) + '…' : value;
+  }
+
+  function neighbors(id, edges) {
+    var related = {};
+    related[id] = true;
+    [['from', 'to'], ['to', 'from']].forEach(function (direction) {
+      var queue = [id], seen = {};
+      while (queue.length) {
+        var current = queue.shift();
+        if (seen[current]) continue;
+        seen[current] = true;
+        related[current] = true;
+        edges.forEach(function (edge) {
+          if (edge[direction[0]] === current) queue.push(edge[direction[1]]);
+        });
+      }
+    });
+    return related;
+  }
+
+  function render() {
+    layout();
+    var viewport = document.getElementById('viewport');
+    viewport.innerHTML = '';
+    var edges = visibleEdges();
+    var related = selected ? neighbors(selected, edges) : null;
+    var query = document.getElementById('search').value.trim().toLowerCase();
+
+    var edgeLayer = element('g', {}, viewport);
+    edges.forEach(function (edge) {
+      var from = positions[edge.from], to = positions[edge.to];
+      if (!from || !to) return;
+      var x1 = from.x + from.width, y1 = from.y + Math.min(from.height, HEADER_HEIGHT) / 2;
+      var x2 = to.x, y2 = to.y + Math.min(to.height, HEADER_HEIGHT) / 2;
+      if (x2 <= x1) { x1 = from.x; x2 = to.x + to.width; }
+      var mid = (x1 + x2) / 2;
+      var path = element('path', { d: 'M' + x1 + ',' + y1 + ' C' + mid + ',' + y1 + ' ' + mid + ',' + y2 + ' ' + x2 + ',' + y2, 'class': 'edge ' + edge.style + (edge.change ? ' ' + edge.change : ''), 'marker-end': 'url(#arrow)' }, edgeLayer);
+      if (related && !(related[edge.from] && related[edge.to])) path.classList.add('dim');
+      if (edge.label) element('title', {}, path).textContent = edge.label;
+    });
+
+    data.modules.forEach(function (m) {
+      var pos = positions[m.id];
+      var classes = ['node', 'module'];
+      if (m.isGlobal) classes.push('global');
+      if (m.isExternal) classes.push('external');
+      if (m.isUnreachable) classes.push('unreachable');
+      if (m.change) classes.push(m.change);
+      if (selected === m.id) classes.push('selected');
+      if (related && !related[m.id] && !m.providers.some(function (p) { return related[p]; })) classes.push('dim');
+      if (query && m.name.toLowerCase().indexOf(query) !== -1) classes.push('match');
+
+      var group = element('g', { 'class': classes.join(' '), transform: 'translate(' + pos.x + ',' + pos.y + ')' }, viewport);
+      element('rect', { 'class': 'box', width: pos.width, height: pos.height }, group);
+      text(truncate(m.name, 26), { 'class': 'title', x: 10, y: 19 }, group);
+      group.addEventListener('click', function (event) { event.stopPropagation(); select(m.id); });
+
+      if (m.providers.length) {
+        var toggle = text(expanded[m.id] ? '−' : '+' + m.providers.length, { 'class': 'toggle', x: pos.width - 10, y: 19, 'text-anchor': 'end' }, group);
+        toggle.addEventListener('click', function (event) { event.stopPropagation(); expanded[m.id] = !expanded[m.id]; render(); });
+      }
+
+      if (expanded[m.id]) {
+        m.providers.forEach(function (providerId) {
+          var provider = providersById[providerId];
+          var providerPos = positions[providerId];
+          var providerClasses = ['node', 'provider'];
+          if (provider.isExported) providerClasses.push('exported');
+          if (provider.scope) providerClasses.push(provider.scope.scope.toLowerCase());
+          if (provider.change) providerClasses.push(provider.change);
+          if (selected === providerId) providerClasses.push('selected');
+          if (related && !related[providerId]) providerClasses.push('dim');
+          if (query && provider.name.toLowerCase().indexOf(query) !== -1) providerClasses.push('match');
+
+          var providerGroup = element('g', { 'class': providerClasses.join(' '), transform: 'translate(' + (providerPos.x - pos.x) + ',' + (providerPos.y - pos.y) + ')' }, group);
+          element('rect', { width: providerPos.width, height: providerPos.height }, providerGroup);
+          text(truncate(provider.name, 28), { x: 6, y: 13 }, providerGroup);
+          providerGroup.addEventListener('click', function (event) { event.stopPropagation(); select(providerId); });
+        });
+      }
+    });
+
+    applyView();
+  }
+
+  function list(title, items) {
+    if (!items.length) return '';
+    return '<h3>' + escapeHtml(title) + '</h3><ul>' + items.map(function (item) { return '<li>' + escapeHtml(item) + '</li>'; }).join('') + '</ul>';
+  }
+
+  function escapeHtml(value) {
+    return String(value).replace(/[&<>"']/g, function (c) { return { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]; });
+  }
+
+  function showDetails(id) {
+    var details = document.getElementById('details');
+    var module = modulesById[id], provider = providersById[id];
+    if (module) {
+      var importedBy = data.moduleEdges.filter(function (e) { return e.to === id; }).map(function (e) { return modulesById[e.from] ? modulesById[e.from].name : e.from; });
+      details.innerHTML = '<h2>' + escapeHtml(module.name) + '</h2>' +
+        (module.filePath ? '<div class="path">' + escapeHtml(module.filePath) + '</div>' : '<div class="path">External module</div>') +
+        (module.isGlobal ? '<p>@Global()</p>' : '') +
+        (module.isUnreachable ? '<p>Not imported by the root module</p>' : '') +
+        list('Imports', module.imports.map(function (i) { return modulesById[i] ? modulesById[i].name : i; })) +
+        list('Imported by', importedBy) +
+        list('Exports', module.exports) +
+        list('Re-exports', module.reExports) +
+        list('Providers', module.providers.map(function (p) { return providersById[p].name; })) +
+        list('Controllers', module.controllers);
+    } else if (provider) {
+      var injectedBy = data.providerEdges.filter(function (e) { return e.to === id; }).map(function (e) { return providersById[e.from].name; });
+      details.innerHTML = '<h2>' + escapeHtml(provider.name) + '</h2>' +
+        '<div class="path">' + escapeHtml(modulesById[provider.module].name) + ' · ' + escapeHtml(provider.type) + (provider.tokenKind ? ' · ' + escapeHtml(provider.tokenKind) + ' token' : '') + (provider.isExported ? ' · exported' : '') + '</div>' +
+        (provider.scope ? '<p>' + escapeHtml(formatScope(provider.scope)) + '</p>' : '') +
+        list('Injected tokens', provider.injections.map(function (i) { return i.token + ' (' + i.kind + (i.isOptional ? ', optional' : '') + ')'; })) +
+        list('Injected by', injectedBy);
+    }
+  }
+
+  function formatScope(scope) {
+    var origin = scope.isImplicit ? ' (implicit, via ' + scope.chain.join(' → ') + ')' : '';
+    return 'Scope: ' + scope.scope + (scope.durable ? ', durable' : '') + origin;
+  }
+
+  function select(id) {
+    selected = id;
+    var provider = providersById[id];
+    if (provider) expanded[provider.module] = true;
+    showDetails(id);
+    render();
+  }
+
+  function search() {
+    var query = document.getElementById('search').value.trim().toLowerCase();
+    var results = document.getElementById('results');
+    results.innerHTML = '';
+    if (query) {
+      data.modules.concat(data.providers).filter(function (node) { return node.name.toLowerCase().indexOf(query) !== -1; }).slice(0, 50).forEach(function (node) {
+        var row = document.createElement('div');
+        row.textContent = node.name + (node.module ? ' (' + modulesById[node.module].name + ')' : '');
+        row.addEventListener('click', function () { select(node.id); focus(node.id); });
+        results.appendChild(row);
+      });
+    }
+    render();
+  }
+
+  function focus(id) {
+    var pos = positions[id];
+    var canvas = document.getElementById('canvas');
+    if (!pos) return;
+    view.x = canvas.clientWidth / 2 - (pos.x + pos.width / 2) * view.scale;
+    view.y = canvas.clientHeight / 2 - (pos.y + pos.height / 2) * view.scale;
+    applyView();
+  }
+
+  function applyView() {
+    document.getElementById('viewport').setAttribute('transform', 'translate(' + view.x + ',' + view.y + ') scale(' + view.scale + ')');
+  }
+
+  var svg = document.getElementById('graph');
+  var drag = null;
+  svg.addEventListener('mousedown', function (event) { drag = { x: event.clientX - view.x, y: event.clientY - view.y }; });
+  window.addEventListener('mousemove', function (event) { if (drag) { view.x = event.clientX - drag.x; view.y = event.clientY - drag.y; applyView(); } });
+  window.addEventListener('mouseup', function () { drag = null; });
+  svg.addEventListener('wheel', function (event) {
+    event.preventDefault();
+    var factor = event.deltaY < 0 ? 1.1 : 0.9;
+    var rect = svg.getBoundingClientRect();
+    var cx = event.clientX - rect.left, cy = event.clientY - rect.top;
+    view.x = cx - (cx - view.x) * factor;
+    view.y = cy - (cy - view.y) * factor;
+    view.scale *= factor;
+    applyView();
+  }, { passive: false });
+  svg.addEventListener('click', function () { selected = null; render(); });
+
+  document.getElementById('search').addEventListener('input', search);
+  document.getElementById('expand-all').addEventListener('click', function () { data.modules.forEach(function (m) { expanded[m.id] = true; }); render(); });
+  document.getElementById('collapse-all').addEventListener('click', function () { expanded = {}; render(); });
+  document.getElementById('clear').addEventListener('click', function () { selected = null; document.getElementById('details').innerHTML = '<p>Select a module or provider to see its metadata.</p>'; render(); });
+
+  var hasChanges = data.modules.concat(data.providers).some(function (node) { return node.change; }) ||
+    data.moduleEdges.concat(data.providerEdges).some(function (edge) { return edge.change; });
+  document.getElementById('diff-legend').hidden = !hasChanges;
+
+  view.x = 20;
+  view.y = 20;
+  render();
+})();
+</script>
+</body>
+</html>
+`;
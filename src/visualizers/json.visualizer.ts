@@ -0,0 +1,20 @@
+import { GraphBuilder } from '../graph/graph.builder';
+import { CycleReport } from '../types/cycles.types';
+import { Diagnostic } from '../types/diagnostics.types';
+import { ModuleMetadata } from '../types/modules.types';
+import { Visualizer } from '../types/visualizer.types';
+import { WorkspaceMetadata } from '../types/workspace.types';
+
+export class JsonVisualizer implements Visualizer {
+  constructor(
+    private modules: Map<string, ModuleMetadata>,
+    private basePath?: string,
+    private cycles: CycleReport[] = [],
+    private workspace?: WorkspaceMetadata,
+    private diagnostics: Diagnostic[] = [],
+  ) {}
+
+  public generate(): string {
+    return JSON.stringify(new GraphBuilder(this.modules, this.basePath, this.cycles, this.workspace, this.diagnostics).build(), null, 2);
+  }
+}
@@ -0,0 +1,96 @@
+import { CycleReport } from '../types/cycles.types';
+import { MessageFlow } from '../types/messaging.types';
+import { ImportMetadata, ModuleMetadata } from '../types/modules.types';
+import { Visualizer } from '../types/visualizer.types';
+
+export class MermaidVisualizer implements Visualizer {
+  private nodeIds = new Map<string, string>();
+
+  constructor(
+    private modules: Map<string, ModuleMetadata>,
+    private cycles: CycleReport[] = [],
+    private messaging: MessageFlow[] = [],
+  ) {}
+
+  /**
+   * Produces a `flowchart` of module imports. Module ids contain characters Mermaid does not accept,
+   * so nodes get short generated ids and the module name as label.
+   */
+  public generate(): string {
+    const lines: string[] = ['flowchart LR'];
+    const cycleEdges: number[] = [];
+    let edgeIndex = 0;
+
+    this.modules.forEach((module, moduleId) => {
+      const classes = module.isGlobal ? ':::global' : '';
+      lines.push(`  ${this.getNodeId(moduleId)}["${this.escapeLabel(module.name)}"]${classes}`);
+    });
+
+    this.modules.forEach((module, moduleId) => {
+      module.imports.forEach((imp) => {
+        const target = imp.moduleId ?? imp.name;
+        if (!this.nodeIds.has(target)) {
+          lines.push(`  ${this.getNodeId(target)}(["${this.escapeLabel(imp.name)}"]):::external`);
+        }
+
+        const arrow = imp.isForwardReference ? '-.->' : '-->';
+        const label = this.getImportLabel(imp);
+        lines.push(`  ${this.getNodeId(moduleId)} ${arrow}${label ? `|"${this.escapeLabel(label)}"|` : ''} ${this.getNodeId(target)}`);
+
+        if (this.isUnguardedCycleEdge(moduleId, target)) cycleEdges.push(edgeIndex);
+        edgeIndex++;
+      });
+    });
+
+    // Messages crossing module boundaries, once per sending module, handling module and pattern
+    const messageEdges: number[] = [];
+    const messages = new Set<string>();
+    this.messaging
+      .filter((flow) => flow.from.moduleId !== flow.to.moduleId)
+      .forEach((flow) => {
+        const label = this.escapeLabel(`${flow.kind} ${flow.pattern}`);
+        const edge = `  ${this.getNodeId(flow.from.moduleId)} -.->|"${label}"| ${this.getNodeId(flow.to.moduleId)}`;
+        if (messages.has(edge)) return;
+        messages.add(edge);
+        lines.push(edge);
+        messageEdges.push(edgeIndex++);
+      });
+
+    lines.push('  classDef global stroke:#1a7f37,stroke-width:2px');
+    lines.push('  classDef external fill:#f6f8fa,stroke-dasharray:4 3');
+    if (cycleEdges.length) {
+      lines.push(`  linkStyle ${cycleEdges.join(',')} stroke:red,stroke-width:2px`);
+    }
+    if (messageEdges.length) {
+      lines.push(`  linkStyle ${messageEdges.join(',')} stroke:purple`);
+    }
+
+    return lines.join('\n');
+  }
+
+  private getNodeId(moduleId: string): string {
+    if (!this.nodeIds.has(moduleId)) {
+      this.nodeIds.set(moduleId, `m${this.nodeIds.size}`);
+    }
+    return this.nodeIds.get(moduleId)!;
+  }
+
+  private getImportLabel(imp: ImportMetadata): string | undefined {
+    const condition = imp.condition ? `if ${imp.condition}` : undefined;
+    if (imp.isForwardReference) return ['forwardRef', condition].filter(Boolean).join(' ');
+    if (!imp.dynamic) return condition;
+
+    const features = imp.dynamic.features.length ? ` [${imp.dynamic.features.join(', ')}]` : '';
+    return [`${imp.dynamic.method}${features}`, condition].filter(Boolean).join(' ');
+  }
+
+  private isUnguardedCycleEdge(from: string, to: string): boolean {
+    return this.cycles.some(
+      (cycle) => cycle.graph === 'module' && cycle.unguardedEdges.some((edge) => edge.from === from && edge.to === to),
+    );
+  }
+
+  private escapeLabel(label: string): string {
+    return label.replace(/"/g, '#quot;');
+  }
+}
@@ -0,0 +1,78 @@
+import { CycleReport } from '../types/cycles.types';
+import { ModuleMetadata } from '../types/modules.types';
+import { Visualizer } from '../types/visualizer.types';
+
+export class PlantUmlVisualizer implements Visualizer {
+  private aliases = new Map<string, string>();
+
+  constructor(
+    private modules: Map<string, ModuleMetadata>,
+    private cycles: CycleReport[] = [],
+  ) {}
+
+  /**
+   * Produces a component diagram: modules are components, exported providers are the interfaces they
+   * provide, and imports are dependencies between components.
+   */
+  public generate(): string {
+    const lines: string[] = ['@startuml', 'skinparam componentStyle rectangle', ''];
+
+    this.modules.forEach((module, moduleId) => {
+      const alias = this.getAlias(moduleId);
+      lines.push(`component "${this.escapeLabel(module.name)}" as ${alias}${module.isGlobal ? ' <<global>>' : ''}`);
+
+      module.exports.forEach((token, index) => {
+        lines.push(`interface "${this.escapeLabel(token)}" as ${alias}_e${index}`);
+        lines.push(`${alias} - ${alias}_e${index}`);
+      });
+    });
+
+    const externals = new Set<string>();
+    this.modules.forEach((module) => {
+      module.imports
+        .filter((imp) => !imp.moduleId && !externals.has(imp.name))
+        .forEach((imp) => {
+          externals.add(imp.name);
+          lines.push(`component "${this.escapeLabel(imp.name)}" as ${this.getAlias(imp.name)} <<external>>`);
+        });
+    });
+    lines.push('');
+
+    this.modules.forEach((module, moduleId) => {
+      module.imports.forEach((imp) => {
+        const target = imp.moduleId ?? imp.name;
+        const from = this.getAlias(moduleId);
+        const to = this.getAlias(target);
+
+        if (this.isUnguardedCycleEdge(moduleId, target)) {
+          lines.push(`${from} -[#red,bold]-> ${to} : imports (circular)`);
+        } else if (imp.isForwardReference) {
+          lines.push(`${from} .[#red].> ${to} : forwardRef`);
+        } else {
+          lines.push(`${from} --> ${to}${imp.dynamic ? ` : ${imp.dynamic.method}()` : ''}`);
+        }
+      });
+    });
+
+    lines.push('@enduml');
+
+    return lines.join('\n');
+  }
+
+  private getAlias(moduleId: string): string {
+    if (!this.aliases.has(moduleId)) {
+      this.aliases.set(moduleId, `m${this.aliases.size}`);
+    }
+    return this.aliases.get(moduleId)!;
+  }
+
+  private isUnguardedCycleEdge(from: string, to: string): boolean {
+    return this.cycles.some(
+      (cycle) => cycle.graph === 'module' && cycle.unguardedEdges.some((edge) => edge.from === from && edge.to === to),
+    );
+  }
+
+  private escapeLabel(label: string): string {
+    return label.replace(/"/g, "'");
+  }
+}
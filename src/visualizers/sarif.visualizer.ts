@@ -0,0 +1,76 @@
+import { GraphBuilder } from '../graph/graph.builder';
+import { CycleReport } from '../types/cycles.types';
+import { Diagnostic, DiagnosticCode } from '../types/diagnostics.types';
+import { ModuleMetadata } from '../types/modules.types';
+import { Visualizer } from '../types/visualizer.types';
+
+const RULES: Record<DiagnosticCode, string> = {
+  'unreadable-file': 'File or directory could not be read',
+  'parse-error': 'File could not be parsed and was left out of the analysis',
+  'unsupported-module': '@Module() metadata is not an object literal',
+  'unsupported-metadata': '@Module() property or spread value cannot be resolved statically',
+  'unsupported-import': 'Module import cannot be resolved statically',
+  'unsupported-provider': 'Provider cannot be resolved statically',
+  'unsupported-controller': 'Controller cannot be resolved statically',
+  'unsupported-export': 'Export cannot be resolved statically',
+  'unresolved-dependency': 'Injected token is not visible to the consuming module',
+  'circular-import': 'Circular module import',
+  'circular-injection': 'Circular provider injection',
+};
+
+/**
+ * SARIF 2.1.0 log of the graph diagnostics, for code scanning tools such as GitHub code scanning.
+ * File locations are relative to the analyzed project (`%SRCROOT%`).
+ */
+export class SarifVisualizer implements Visualizer {
+  constructor(
+    private modules: Map<string, ModuleMetadata>,
+    private basePath?: string,
+    private cycles: CycleReport[] = [],
+    private diagnostics: Diagnostic[] = [],
+  ) {}
+
+  public generate(): string {
+    const { diagnostics } = new GraphBuilder(this.modules, this.basePath, this.cycles, undefined, this.diagnostics).build();
+    const codes = Object.keys(RULES) as DiagnosticCode[];
+
+    const log = {
+      $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+      version: '2.1.0',
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: 'nestjs-dependency-analyzer',
+              rules: codes.map((code) => ({ id: code, shortDescription: { text: RULES[code] } })),
+            },
+          },
+          results: diagnostics.map((diagnostic) => this.toResult(diagnostic, codes.indexOf(diagnostic.code))),
+        },
+      ],
+    };
+
+    return JSON.stringify(log, null, 2);
+  }
+
+  private toResult(diagnostic: Diagnostic, ruleIndex: number) {
+    return {
+      ruleId: diagnostic.code,
+      ruleIndex,
+      level: diagnostic.severity,
+      message: { text: diagnostic.message },
+      locations: diagnostic.filePath
+        ? [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: diagnostic.filePath, uriBaseId: '%SRCROOT%' },
+                ...(diagnostic.line
+                  ? { region: { startLine: diagnostic.line, ...(diagnostic.column ? { startColumn: diagnostic.column } : {}) } }
+                  : {}),
+              },
+            },
+          ]
+        : [],
+    };
+  }
+}
@@ -0,0 +1,111 @@
+import * as path from 'path';
+import { Visualizer, VisualizerContext, VisualizerDefinition } from '../types/visualizer.types';
+import { DotVisualizer } from './dot.visualizer';
+import { GraphMlVisualizer } from './graphml.visualizer';
+import { HtmlVisualizer } from './html.visualizer';
+import { JsonVisualizer } from './json.visualizer';
+import { MermaidVisualizer } from './mermaid.visualizer';
+import { PlantUmlVisualizer } from './plantuml.visualizer';
+import { SarifVisualizer } from './sarif.visualizer';
+
+const BUILT_IN_VISUALIZERS: VisualizerDefinition[] = [
+  {
+    format: 'json',
+    extensions: ['.json'],
+    description: 'Module metadata as JSON',
+    create: ({ modules, basePath, cycles, workspace, diagnostics }) =>
+      new JsonVisualizer(modules, basePath, cycles, workspace, diagnostics),
+  },
+  {
+    format: 'dot',
+    extensions: ['.dot', '.gv'],
+    description: 'Graphviz DOT graph',
+    create: ({ modules, cycles, workspace, scopes, messaging, focus, collapseProviders }) =>
+      new DotVisualizer(modules, cycles, workspace, scopes, messaging, { focus, collapseProviders }),
+  },
+  {
+    format: 'html',
+    extensions: ['.html', '.htm'],
+    description: 'Self-contained interactive HTML report',
+    create: ({ modules, basePath, cycles, scopes }) => new HtmlVisualizer(modules, cycles, undefined, scopes, basePath),
+  },
+  {
+    format: 'mermaid',
+    extensions: ['.mmd', '.mermaid'],
+    description: 'Mermaid flowchart (renders in GitHub markdown)',
+    create: ({ modules, cycles, messaging }) => new MermaidVisualizer(modules, cycles, messaging),
+  },
+  {
+    format: 'plantuml',
+    extensions: ['.puml', '.plantuml'],
+    description: 'PlantUML component diagram',
+    create: ({ modules, cycles }) => new PlantUmlVisualizer(modules, cycles),
+  },
+  {
+    format: 'graphml',
+    extensions: ['.graphml'],
+    description: 'GraphML for yEd and Gephi',
+    create: ({ modules, cycles }) => new GraphMlVisualizer(modules, cycles),
+  },
+  {
+    format: 'sarif',
+    extensions: ['.sarif'],
+    description: 'SARIF log of the diagnostics for code scanning',
+    create: ({ modules, basePath, cycles, diagnostics }) => new SarifVisualizer(modules, basePath, cycles, diagnostics),
+  },
+];
+
+export class VisualizerRegistry {
+  private definitions = new Map<string, VisualizerDefinition>();
+
+  constructor() {
+    BUILT_IN_VISUALIZERS.forEach((definition) => this.register(definition));
+  }
+
+  public register(definition: VisualizerDefinition): void {
+    this.definitions.set(definition.format.toLowerCase(), definition);
+  }
+
+  /**
+   * Registers a third-party format from a module listed in the config file. Bare package names are
+   * resolved from the analyzed project so its own node_modules are used.
+   */
+  public registerFromModule(modulePath: string, basePath: string): void {
+    let loaded: any;
+    try {
+      loaded = require(require.resolve(modulePath, { paths: [basePath] }));
+    } catch (error) {
+      throw new Error(`Cannot load visualizer "${modulePath}": ${(error as Error).message}`);
+    }
+
+    const definition = loaded?.default ?? loaded;
+    if (typeof definition?.format !== 'string' || typeof definition?.create !== 'function') {
+      throw new Error(`Visualizer "${modulePath}" must export an object with a "format" string and a "create" function`);
+    }
+
+    this.register({ extensions: [], ...definition });
+  }
+
+  public get(format: string): VisualizerDefinition | undefined {
+    return this.definitions.get(format.toLowerCase());
+  }
+
+  public findByExtension(filePath: string): VisualizerDefinition | undefined {
+    const extension = path.extname(filePath).toLowerCase();
+    if (!extension) return undefined;
+
+    return Array.from(this.definitions.values()).find((definition) => definition.extensions.includes(extension));
+  }
+
+  public get formats(): string[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  public create(format: string, context: VisualizerContext): Visualizer {
+    const definition = this.get(format);
+    if (!definition) {
+      throw new Error(`Unknown format "${format}". Available formats: ${this.formats.join(', ')}`);
+    }
+    return definition.create(context);
+  }
+}